@@ -0,0 +1,35 @@
+import "dotenv/config";
+
+import { isEntryPoint, readArgs, type CommandSpec } from "./lib/args.mjs";
+import { CACHE_NAMESPACES, cacheClear, configureCache, getCacheDir, type CacheNamespace } from "./lib/cache.mjs";
+
+export const command: CommandSpec = {
+  name: "cache",
+  summary: "Manage the persistent cache of prices, block lookups and explorer pages.",
+  positionals: `clear [${CACHE_NAMESPACES.join("|")}]`,
+  options: [
+    { name: "cacheDir", type: "string", env: "CACHE_DIR", placeholder: "path", default: ".cache", description: "Cache directory" },
+  ],
+  examples: ["walletbalance cache clear", "walletbalance cache clear prices"],
+};
+
+export async function main(argv: string[]) {
+  const args = readArgs(command, argv);
+  configureCache({ dir: args.str("cacheDir") });
+  const [cmd, ns, ...extra] = args.positionals;
+
+  if (cmd !== "clear" || extra.length > 0) {
+    console.error(`Usage: walletbalance cache ${command.positionals}`);
+    process.exit(1);
+  }
+  if (ns && !CACHE_NAMESPACES.includes(ns as CacheNamespace)) {
+    console.error(`Unknown cache namespace ${ns} (expected ${CACHE_NAMESPACES.join("|")})`);
+    process.exit(1);
+  }
+  const removed = await cacheClear(ns as CacheNamespace | undefined);
+  console.log(`Removed ${removed} ${ns || "cached"} entries from ./${getCacheDir()}`);
+}
+
+if (isEntryPoint(import.meta.url)) {
+  main(process.argv.slice(2)).catch((e) => { console.error(e); process.exit(1); });
+}
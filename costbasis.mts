@@ -0,0 +1,221 @@
+import "dotenv/config";
+import { mkdir } from "node:fs/promises";
+import { basename } from "node:path";
+
+import { formatPrice, formatUsd, toDec, usdValue, ZERO, type Dec } from "./lib/amounts.mjs";
+import { CONFIG_OPTION, isEntryPoint, readArgs, type CommandSpec } from "./lib/args.mjs";
+import { getChain, loadConfig, type Config } from "./lib/config.mjs";
+import {
+  holdingTerm,
+  LOT_METHODS,
+  matchLots,
+  type LotEvent,
+  type LotMethod,
+} from "./lib/costbasis.mjs";
+import { readCsvFile } from "./lib/csv.mjs";
+import { openRowWriter, type Row } from "./lib/output.mjs";
+
+export const command: CommandSpec = {
+  name: "costbasis",
+  summary: "Match acquisitions and disposals from ledger or inbound CSVs into realized and unrealized gains.",
+  options: [
+    { name: "input", type: "list", env: "COST_BASIS_INPUT", placeholder: "csv,...", description: "Ledger or inbound CSVs (required)" },
+    { name: "snapshot", type: "string", env: "COST_BASIS_SNAPSHOT", placeholder: "csv", description: "Snapshot CSV with end-of-period prices for unrealized gains" },
+    { name: "method", type: "enum", env: "COST_BASIS_METHOD", values: LOT_METHODS, default: "fifo", description: "Lot matching method" },
+    CONFIG_OPTION,
+  ],
+  examples: ["walletbalance costbasis --input csvs/2024_ledger.csv --snapshot csvs/eoy_2024.csv --method hifo"],
+};
+
+const REALIZED_COLUMNS = [
+  "chain", "wallet", "asset", "token_address", "reason", "date_acquired", "date_disposed", "quantity",
+  "cost_basis_usd", "proceeds_usd", "gain_usd", "term", "lot_hash", "disposal_hash", "flags",
+];
+const UNREALIZED_COLUMNS = [
+  "chain", "wallet", "asset", "token_address", "date_acquired", "as_of", "quantity", "cost_basis_usd",
+  "price_usd", "value_usd", "unrealized_usd", "term", "lot_hash", "flags",
+];
+
+const rowOf = (columns: string[], cells: string[]): Row => Object.fromEntries(columns.map((c, i) => [c, cells[i] ?? ""]));
+const toTs = (iso: string) => Math.floor(new Date(iso).getTime() / 1000);
+const isoDate = (ts: number | null) => (ts == null ? "" : new Date(ts * 1000).toISOString().slice(0, 10));
+const usd = (d: Dec | null) => (d == null ? "" : formatUsd(d));
+
+/**
+ * Acquisitions and disposals from a ledger CSV (inbound --mode=ledger: `in` rows acquire,
+ * `out` rows and gas fees dispose) or an inbound CSV (every row is an acquisition).
+ */
+function eventsFromCsv(rows: Record<string, string>[], file: string, config: Config): LotEvent[] {
+  const events: LotEvent[] = [];
+  const header = rows[0] ?? {};
+  const isLedger = "direction" in header;
+  const isTokenInbound = "token_address" in header && "value" in header;
+  if (!isLedger && !("value_eth" in header) && !isTokenInbound) {
+    throw new Error(`${file} is not a ledger or inbound CSV (no direction, value or value_eth column)`);
+  }
+
+  for (const r of rows) {
+    if (r.date_iso === "TOTAL" || !r.date_iso) continue;
+    const ts = toTs(r.date_iso);
+    const chain = r.chain || "";
+    const wallet = r.wallet || "";
+    const hash = r.hash || "";
+
+    if (isLedger) {
+      const ref = { chain, wallet, asset: r.asset || "", tokenAddress: r.token_address || "" };
+      const price = toDec(r.usd_price);
+      const amount = toDec(r.amount) ?? ZERO;
+      if (r.direction === "in" || r.direction === "out") {
+        events.push({
+          ...ref,
+          kind: r.direction === "in" ? "acquire" : "dispose",
+          reason: r.direction === "in" ? "receive" : "send",
+          ts,
+          quantity: amount,
+          unitUsd: price,
+          hash,
+        });
+      }
+      // Gas is spent from the native asset; fees only appear on native rows, so the row's price applies
+      const fee = toDec(r.fee_eth) ?? ZERO;
+      if (fee.gt(0)) {
+        const native = getChain(config, chain);
+        events.push({
+          chain,
+          wallet,
+          asset: native?.nativeSymbol || r.asset || "",
+          tokenAddress: "",
+          kind: "dispose",
+          reason: "fee",
+          ts,
+          quantity: fee,
+          unitUsd: price,
+          hash,
+        });
+      }
+    } else if (isTokenInbound) {
+      events.push({
+        chain,
+        wallet,
+        asset: r.token_symbol || "",
+        tokenAddress: r.token_address || "",
+        kind: "acquire",
+        reason: "receive",
+        ts,
+        quantity: toDec(r.value) ?? ZERO,
+        unitUsd: toDec(r.token_usd),
+        hash,
+      });
+    } else {
+      events.push({
+        chain,
+        wallet,
+        asset: getChain(config, chain)?.nativeSymbol || "ETH",
+        tokenAddress: "",
+        kind: "acquire",
+        reason: "receive",
+        ts,
+        quantity: toDec(r.value_eth) ?? ZERO,
+        unitUsd: toDec(r.eth_usd),
+        hash,
+      });
+    }
+  }
+  return events;
+}
+
+export async function main(argv: string[]) {
+  const args = readArgs(command, argv);
+  const inputs = args.list("input");
+  const snapshotFile = args.str("snapshot");
+  const method = args.str("method") as LotMethod;
+  if (inputs.length === 0) {
+    console.error("Pass --input=<ledger or inbound CSV>[,...] (e.g. --input=csvs/2024_ledger.csv).");
+    process.exit(1);
+  }
+
+  let config: Config;
+  let events: LotEvent[] = [];
+  let snapshotRows: Record<string, string>[] = [];
+  try {
+    config = await loadConfig(args.str("config"));
+    for (const file of inputs) events.push(...eventsFromCsv(await readCsvFile(file), file, config));
+    if (snapshotFile) snapshotRows = await readCsvFile(snapshotFile);
+  } catch (e: any) {
+    console.error(e?.message || String(e));
+    process.exit(1);
+  }
+
+  // Period end and prices come from the snapshot's last date; later events belong to the next period
+  let asOfTs: number | null = null;
+  const endPrices = new Map<string, Dec>();
+  if (snapshotFile) {
+    const lastDate = snapshotRows.map((r) => r.date_iso || "").sort().pop();
+    if (!lastDate) {
+      console.error(`${snapshotFile} has no snapshot rows.`);
+      process.exit(1);
+    }
+    asOfTs = toTs(lastDate);
+    for (const r of snapshotRows) {
+      const price = toDec(r.usd_price_on_date);
+      if (r.date_iso !== lastDate || price == null) continue;
+      endPrices.set(`${r.chain}|${(r.token_address || "").toLowerCase() || "native"}`, price);
+    }
+    const later = events.filter((e) => e.ts > asOfTs!).length;
+    if (later > 0) console.warn(`[warn] ignoring ${later} event(s) after the snapshot date ${lastDate}`);
+    events = events.filter((e) => e.ts <= asOfTs!);
+  }
+
+  const { realized, open } = matchLots(events, method);
+  const unmatched = realized.filter((r) => r.flags.includes("no_lots")).length;
+  if (unmatched > 0) {
+    console.warn(`[warn] ${unmatched} disposal(s) exceed the acquisitions in the input; their cost basis is unknown (flag no_lots)`);
+  }
+
+  const outDir = "csvs";
+  const base = basename(inputs[0]!, ".csv");
+  await mkdir(outDir, { recursive: true });
+
+  const realizedFile = `${outDir}/${base}_realized_${method}.csv`;
+  const realizedOut = openRowWriter(realizedFile, "csv", REALIZED_COLUMNS);
+  for (const r of realized) {
+    await realizedOut.write(rowOf(REALIZED_COLUMNS, [
+      r.chain, r.wallet, r.asset, r.tokenAddress, r.reason, isoDate(r.acquiredTs), isoDate(r.disposedTs),
+      r.quantity.toFixed(), usd(r.costUsd), usd(r.proceedsUsd), usd(r.gainUsd), r.term, r.lotHash, r.disposalHash,
+      r.flags.join(";"),
+    ]));
+  }
+  await realizedOut.close();
+
+  const gains = { short: ZERO, long: ZERO };
+  for (const r of realized) if (r.term && r.gainUsd != null) gains[r.term] = gains[r.term].plus(r.gainUsd);
+  console.log(`Realized (${method.toUpperCase()}): short-term ${usd(gains.short)} USD, long-term ${usd(gains.long)} USD`);
+  console.log(`Wrote ${realized.length} realized rows to ./${realizedFile}`);
+
+  if (asOfTs == null) {
+    console.log("No --snapshot given; skipping the unrealized report.");
+    return;
+  }
+  const unrealizedFile = `${outDir}/${base}_unrealized_${method}.csv`;
+  let unrealizedTotal = ZERO;
+  const unrealizedOut = openRowWriter(unrealizedFile, "csv", UNREALIZED_COLUMNS);
+  for (const lot of open) {
+    const price = endPrices.get(`${lot.chain}|${lot.tokenAddress.toLowerCase() || "native"}`) ?? null;
+    const cost = lot.unitUsd != null ? usdValue(lot.quantity, lot.unitUsd) : null;
+    const value = price != null ? usdValue(lot.quantity, price) : null;
+    const gain = cost != null && value != null ? value.minus(cost) : null;
+    if (gain != null) unrealizedTotal = unrealizedTotal.plus(gain);
+    await unrealizedOut.write(rowOf(UNREALIZED_COLUMNS, [
+      lot.chain, lot.wallet, lot.asset, lot.tokenAddress, isoDate(lot.ts), isoDate(asOfTs), lot.quantity.toFixed(),
+      usd(cost), price != null ? formatPrice(price, 6) : "", usd(value), usd(gain), holdingTerm(lot.ts, asOfTs!), lot.hash,
+      gain == null ? "unpriced" : "",
+    ]));
+  }
+  await unrealizedOut.close();
+  console.log(`Unrealized at ${isoDate(asOfTs)}: ${usd(unrealizedTotal)} USD`);
+  console.log(`Wrote ${open.length} open lots to ./${unrealizedFile}`);
+}
+
+if (isEntryPoint(import.meta.url)) {
+  main(process.argv.slice(2)).catch((e) => { console.error(e); process.exit(1); });
+}
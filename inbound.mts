@@ -1,43 +1,115 @@
 import "dotenv/config";
-import axios from "axios";
-import { mkdir } from "node:fs/promises";
-import { createWriteStream } from "node:fs";
-
-type ChainName = "base" | "optimism";
-
-const RAW_WALLETS = (process.env.WALLETS || "")
-  .split(",")
-  .map((s) => s.trim())
-  .filter(Boolean);
-
-function parseWallets(raw: string[]): Record<ChainName, string[]> {
-  const scoped: Record<ChainName, string[]> = { base: [], optimism: [] };
-  for (const entry of raw) {
-    const [maybeChain, maybeAddr] = entry.split(":");
-    const isOp = maybeChain === "optimism" || maybeChain === "op";
-    if (maybeAddr && (maybeChain === "base" || isOp)) {
-      scoped[isOp ? "optimism" : "base"].push(maybeAddr);
-    } else if (entry) {
-      // unscoped -> check both chains
-      scoped.base.push(entry);
-      scoped.optimism.push(entry);
-    }
-  }
-  return scoped;
-}
+import { appendFile, mkdir, stat, truncate, writeFile } from "node:fs/promises";
 
-const ETHERSCAN_API_KEY = process.env.ETHERSCAN_API_KEY || "";
+import { Dec, formatAmount, formatPrice, formatUsd, toRaw, usdValue, ZERO } from "./lib/amounts.mjs";
+import { CONCURRENCY_OPTION, isEntryPoint, NETWORK_OPTIONS, readArgs, type CommandSpec } from "./lib/args.mjs";
+import { cacheGet, cacheSet, configureCache, isFinalizedTs } from "./lib/cache.mjs";
+import {
+  appendSeenKeys,
+  clearCheckpoint,
+  loadCheckpoint,
+  loadSeenKeys,
+  loadWatchState,
+  saveCheckpoint,
+  saveWatchState,
+  writeSeenKeys,
+  type Checkpoint,
+  type CheckpointPosition,
+  type WatchState,
+} from "./lib/checkpoint.mjs";
+import {
+  applyPriceArgs,
+  coingeckoIdsByAddress,
+  getChain,
+  loadConfig,
+  rawWallets,
+  type ChainCfg,
+  type ChainName,
+  type Config,
+  type TokenCfg,
+} from "./lib/config.mjs";
+import {
+  accountRows,
+  ETHERSCAN_API_KEY,
+  etherscanGet,
+  fetchAccountPages,
+  type AccountAction,
+  type PageOpts,
+} from "./lib/etherscan.mjs";
+import { addL1Fees, compareLedgerEntries, toLedgerEntries, type LedgerEntry } from "./lib/ledger.mjs";
+import { fetchTransferLogs } from "./lib/logs.mjs";
+import {
+  openRowWriter,
+  outputPath,
+  parseFormat,
+  type OutputFormat,
+  type Row,
+  type RowWriter,
+  type TransferRecord,
+} from "./lib/output.mjs";
+import { pricerFromConfig, type Pricer } from "./lib/prices.mjs";
+import { configureTransport, httpRequest } from "./lib/transport.mjs";
+import { resolveNames } from "./lib/names.mjs";
+import { configureLimits, mapConcurrent, printThroughput } from "./lib/scheduler.mjs";
+import { addToSummary, printSummary, summaryRows, writeSummary, type Summary } from "./lib/summary.mjs";
+import { fetchTraceTransfers, TRACE_METHODS, type TraceMethod } from "./lib/traces.mjs";
+import { parseWallets, walletInfo, walletNames, type ParsedWallets } from "./lib/wallets.mjs";
+import { postWebhook, type WebhookOpts } from "./lib/webhook.mjs";
 
-const CHAIN_IDS = {
-  base: 8453,
-  optimism: 10,
+// Loaded in main() from --config (or the built-in defaults)
+let CONFIG: Config;
+let COINGECKO_IDS_BY_ADDRESS: Record<string, string> = {};
+let PRICER: Pricer;
+// Name, label and groups per wallet for the output columns
+let WALLETS: ParsedWallets;
+const walletCols = (wallet: string) => {
+  const w = walletInfo(WALLETS, wallet);
+  return { wallet_name: w.name, wallet_label: w.label, wallet_groups: w.groups.join(";") };
 };
 
-// Public RPCs for block timestamp resolution (no key required)
-const PUBLIC_RPC = {
-  base: "https://mainnet.base.org",
-  optimism: "https://mainnet.optimism.io",
-};
+function chainCfg(chain: ChainName): ChainCfg {
+  const cfg = getChain(CONFIG, chain);
+  if (!cfg) throw new Error(`Chain ${chain} is not configured in ${CONFIG.source}`);
+  return cfg;
+}
+
+function explorerChainId(chain: ChainName): number {
+  const id = chainCfg(chain).explorerChainId;
+  if (id == null) throw new Error(`Chain ${chain} has no explorer API coverage (explorerChainId is null)`);
+  return id;
+}
+
+// Where transfers come from: the explorer, or each chain's RPC (Transfer logs for tokens, traces for internal transfers)
+export type TransferSource = "etherscan" | "rpc";
+export const TRANSFER_SOURCES: TransferSource[] = ["etherscan", "rpc"];
+let SOURCE: TransferSource = "etherscan";
+let LOG_BLOCKS = 100_000; // eth_getLogs / trace_filter span to start from
+let TRACE_METHOD: TraceMethod = "trace_filter";
+
+/** Set the config, pricer, wallets and source the module's helpers read (main does this; so does `serve`). */
+export function configureInbound(
+  config: Config,
+  pricer: Pricer,
+  wallets: ParsedWallets,
+  opts: { source?: TransferSource; logBlocks?: number; traceMethod?: TraceMethod } = {},
+): void {
+  CONFIG = config;
+  COINGECKO_IDS_BY_ADDRESS = coingeckoIdsByAddress(config);
+  PRICER = pricer;
+  WALLETS = wallets;
+  SOURCE = opts.source ?? "etherscan";
+  LOG_BLOCKS = opts.logBlocks ?? LOG_BLOCKS;
+  TRACE_METHOD = opts.traceMethod ?? TRACE_METHOD;
+}
+
+/** Wallets to query per chain: those scoped to it plus every unscoped one (once, even when also scoped there). */
+export function inboundScope(config: Config, parsed: ParsedWallets): Map<ChainName, string[]> {
+  return new Map(config.chains.map((c) => {
+    const own = parsed.scoped.get(c.name) ?? [];
+    const extra = parsed.unscoped.filter((a) => !own.some((o) => o.toLowerCase() === a.toLowerCase()));
+    return [c.name, [...own, ...extra]];
+  }));
+}
 
 // ---- Year window (default 2025; can be overridden by --year or --start/--end)
 let YEAR = 2025 as number;
@@ -62,142 +134,36 @@ async function withRetry<T>(fn: () => Promise<T>, tries = 3, baseMs = 300): Prom
   throw lastErr;
 }
 
-async function writeLine(stream: import("node:fs").WriteStream, line: string): Promise<void> {
-  await new Promise<void>((resolve) => {
-    if (stream.write(line + "\n")) resolve();
-    else stream.once("drain", resolve);
-  });
-}
-
-// Generic Etherscan (multichain) paginator — filters by 2025 timestamps
-async function fetchEtherscanTxPaged(
-  chain: ChainName,
-  action: "txlist" | "txlistinternal",
-  address: string,
-): Promise<any[]> {
-  const url = "https://api.etherscan.io/v2/api";
-  const chainId = CHAIN_IDS[chain];
-  const results: any[] = [];
-  const offset = 1000; // page size
-  let page = 1;
-  while (true) {
-    const data = await etherscanGet({
-      chainid: chainId,
-      module: "account",
-      action,
-      address,
-      page,
-      offset,
-      sort: "asc",
-      apikey: ETHERSCAN_API_KEY,
-    });
-    if (data?.status !== "1") {
-      console.warn(`[warn] Etherscan ${action} ${chain}:${address} page=${page} exited:`, data?.message || data);
-      break; // no results or error; exit loop
-    }
-    const arr: any[] = Array.isArray(data?.result) ? data.result : [];
-    if (arr.length === 0) break;
-
-    // Determine if we can early-continue/stop based on timestamps
-    const firstTs = Number(arr[0]?.timeStamp || arr[0]?.timestamp || 0);
-    const lastTs = Number(arr[arr.length - 1]?.timeStamp || arr[arr.length - 1]?.timestamp || 0);
-
-    // If entire page is before 2025 window, skip and continue
-    if (lastTs < START_TS) {
-      page += 1;
-      continue;
-    }
-    // If entire page is after 2025 window, we're done (ascending order)
-    if (firstTs > END_TS) {
-      break;
-    }
-
-    for (const t of arr) {
-      const ts = Number(t.timeStamp || t.timestamp || 0);
-      if (ts >= START_TS && ts <= END_TS) results.push(t);
-    }
-
-    if (lastTs > END_TS || arr.length < offset) break; // last page for our window
-    page += 1;
-  }
-  return results;
-}
-
-// --- Simple helpers
-// Etherscan GET with throttle/backoff (free: 5 rps)
-let lastRequestTs = 0;
-async function etherscanGet(params: Record<string, any>): Promise<any> {
-  const minSpacingMs = 220; // ~4.5 rps
-  const now = Date.now();
-  const delta = now - lastRequestTs;
-  if (delta < minSpacingMs) await sleep(minSpacingMs - delta);
-  lastRequestTs = Date.now();
-
-  let retries = 0;
-  while (retries < 3) {
-    try {
-      const { data } = await axios.get("https://api.etherscan.io/v2/api", {
-        params,
-        timeout: 30000,
-      });
-      return data;
-    } catch (e: any) {
-      if (e?.response?.status === 429) {
-        retries++;
-        const backoff = 500 * Math.pow(2, retries);
-        console.warn(`[warn] Etherscan rate limit hit. Retrying in ${backoff}ms...`);
-        await sleep(backoff);
-      } else {
-        throw e;
-      }
-    }
-  }
-  throw new Error("Etherscan API failed after multiple retries.");
-}
-
-// Throttled CoinGecko GET (free: ~10-30/min)
-let lastCgRequestTs = 0;
-async function coingeckoGet(url: string): Promise<any> {
-  const minSpacingMs = 6000; // 10/min
-  const now = Date.now();
-  const delta = now - lastCgRequestTs;
-  if (delta < minSpacingMs) await sleep(minSpacingMs - delta);
-  lastCgRequestTs = Date.now();
+// RPC POST (paced by the host's limits), to the keyless publicRpc unless another URL is given
+async function rpcPost(chain: ChainName, body: unknown, url = chainCfg(chain).publicRpc): Promise<any> {
   return await withRetry(async () => {
-    const { data } = await axios.get(url, { timeout: 15000 });
-    return data;
-  }, 3, 600);
-}
-
-// Throttled RPC POST
-let lastRpcRequestTs = 0;
-async function rpcPost(chain: ChainName, method: string, params: any[]): Promise<any> {
-  const minSpacingMs = 1000; // 1/sec
-  const now = Date.now();
-  const delta = now - lastRpcRequestTs;
-  if (delta < minSpacingMs) await sleep(minSpacingMs - delta);
-  lastRpcRequestTs = Date.now();
-
-  const url = PUBLIC_RPC[chain];
-  const { data } = await withRetry(async () => {
-    return await axios.post(url, {
-      id: 1,
-      jsonrpc: "2.0",
-      method,
-      params,
-    }, { timeout: 30000, headers: { "content-type": "application/json" } });
+    return await httpRequest({ method: "POST", url, body, timeoutMs: 30000 });
   }, 3, 500);
-  return data;
 }
 
 
 // RPC helpers
-async function rpcCall(chain: ChainName, method: string, params: any[]): Promise<any> {
-  const data = await rpcPost(chain, method, params);
-  if (data?.error) throw new Error(String(data?.error?.message || data?.error));
+const rpcError = (error: any) =>
+  Object.assign(new Error(String(error?.message || error)), { code: error?.code, data: error?.data });
+
+async function rpcCall(chain: ChainName, method: string, params: any[], url?: string): Promise<any> {
+  const data = await rpcPost(chain, { id: 1, jsonrpc: "2.0", method, params }, url);
+  if (data?.error) throw rpcError(data.error);
   return data?.result;
 }
 
+// Several calls in one JSON-RPC batch; results in call order
+async function rpcBatch(chain: ChainName, calls: { method: string; params: unknown[] }[], url?: string): Promise<any[]> {
+  const data = await rpcPost(chain, calls.map((c, i) => ({ id: i + 1, jsonrpc: "2.0", method: c.method, params: c.params })), url);
+  if (!Array.isArray(data)) throw rpcError(data?.error ?? "RPC batch request failed");
+  const byId = new Map(data.map((r: any) => [r.id, r]));
+  return calls.map((_, i) => {
+    const r = byId.get(i + 1);
+    if (!r || r.error) throw rpcError(r?.error ?? "RPC batch result missing");
+    return r.result;
+  });
+}
+
 async function rpcGetLatestBlockNumber(chain: ChainName): Promise<number> {
   const hex = await rpcCall(chain, "eth_blockNumber", []);
   return Number.parseInt(hex, 16);
@@ -210,8 +176,17 @@ async function rpcGetBlockByNumber(chain: ChainName, num: number): Promise<{ num
   return { number: num, timestamp: ts };
 }
 
-// Binary search for block at/around timestamp
+// Binary search for block at/around timestamp (finalized results cached on disk; chunked runs reuse them)
 async function resolveBlockAtTime(chain: ChainName, targetTs: number, closest: "before" | "after"): Promise<number> {
+  const cacheKey = `${chainCfg(chain).chainId}|${targetTs}|${closest}`;
+  const cached = await cacheGet<number>("blocks", cacheKey);
+  if (cached !== undefined) return cached;
+  const block = await searchBlockAtTime(chain, targetTs, closest);
+  if (isFinalizedTs(targetTs)) await cacheSet("blocks", cacheKey, block);
+  return block;
+}
+
+async function searchBlockAtTime(chain: ChainName, targetTs: number, closest: "before" | "after"): Promise<number> {
   const latest = await rpcGetLatestBlockNumber(chain);
   let low = 0;
   let high = latest;
@@ -233,75 +208,262 @@ async function resolveBlockAtTime(chain: ChainName, targetTs: number, closest: "
   }
 }
 
-// Etherscan internal tx with block bounds + pagination + early stop
-async function fetchInternalByBlockRange(
+// Etherscan account list (txlist / txlistinternal / tokentx) with block bounds, filtered to the window
+async function fetchAccountTxByBlockRange(
   chain: ChainName,
+  action: AccountAction,
   address: string,
   startBlock: number,
   endBlock: number,
   maxPages: number,
+  extra: Record<string, any> = {},
+  paging: PageOpts = {},
 ): Promise<any[]> {
-  const chainId = CHAIN_IDS[chain];
-  const offset = 1000;
-  let page = 1;
-  const out: any[] = [];
-  while (page <= maxPages) {
-    const data = await etherscanGet({
-      chainid: chainId,
-      module: "account",
-      action: "txlistinternal",
-      address,
-      startblock: startBlock,
-      endblock: endBlock,
-      page,
-      offset,
-      sort: "asc", // oldest first
-      apikey: ETHERSCAN_API_KEY,
-    });
-    if (data?.status !== "1") break;
-    const arr: any[] = Array.isArray(data?.result) ? data.result : [];
-    if (arr.length === 0) break;
-    // Filter strictly to 2025 timestamps
-    for (const t of arr) {
-      const ts = Number(t.timeStamp || t.timestamp || 0);
-      if (ts >= START_TS && ts <= END_TS) out.push(t);
+  // Filter strictly to window timestamps
+  const inWindow = (rows: any[]) => rows.filter((t) => {
+    const ts = Number(t.timeStamp || t.timestamp || 0);
+    return ts >= START_TS && ts <= END_TS;
+  });
+  const onPage = paging.onPage;
+  const rows = await fetchAccountPages(explorerChainId(chain), action, address, {
+    startBlock,
+    endBlock,
+    maxPages,
+    extra,
+    finalized: isFinalizedTs(END_TS),
+    ...(paging.startPage != null && { startPage: paging.startPage }),
+    ...(onPage && { onPage: (page: number, arr: any[]) => onPage(page, inWindow(arr)) }),
+  });
+  return inWindow(rows);
+}
+
+// Logs and traces come from the configured (archive) RPC when there is a real one, else the keyless endpoint
+function sourceRpcUrl(chain: ChainName): string {
+  const c = chainCfg(chain);
+  return c.rpc && !/\/KEY$/.test(c.rpc) ? c.rpc : c.publicRpc;
+}
+
+// Inbound Transfer logs of one token, oldest first, as tokentx-style rows
+const splitWarned = new Set<ChainName>();
+async function fetchTokenLogs(chain: ChainName, wallet: string, token: TokenCfg, startBlock: number, endBlock: number): Promise<any[]> {
+  const url = sourceRpcUrl(chain);
+  return fetchTransferLogs(
+    { call: (method, params) => rpcCall(chain, method, params, url), batch: (calls) => rpcBatch(chain, calls, url) },
+    {
+      tokens: [token.address],
+      to: wallet,
+      fromBlock: startBlock,
+      toBlock: endBlock,
+      span: LOG_BLOCKS,
+      onSplit: (from, to) => {
+        if (splitWarned.has(chain)) return;
+        splitWarned.add(chain);
+        console.warn(`[warn] ${chain} RPC refused eth_getLogs over blocks ${from}-${to}; splitting ranges (lower --logBlocks to skip this)`);
+      },
+    },
+  );
+}
+
+// Internal native transfers to a wallet from the RPC's traces, oldest first, as txlistinternal-style rows
+const debugWarned = new Set<ChainName>();
+async function fetchInternalTraces(chain: ChainName, wallet: string, startBlock: number, endBlock: number): Promise<any[]> {
+  const url = sourceRpcUrl(chain);
+  if (TRACE_METHOD === "debug" && endBlock - startBlock > 10_000 && !debugWarned.has(chain)) {
+    debugWarned.add(chain);
+    console.warn(`[warn] --traceMethod=debug replays every block; ${endBlock - startBlock + 1} blocks on ${chain} will take a while`);
+  }
+  try {
+    return await fetchTraceTransfers(
+      { call: (method, params) => rpcCall(chain, method, params, url), batch: (calls) => rpcBatch(chain, calls, url) },
+      {
+        to: wallet,
+        fromBlock: startBlock,
+        toBlock: endBlock,
+        method: TRACE_METHOD,
+        span: LOG_BLOCKS,
+        onSplit: (from, to) => {
+          if (splitWarned.has(chain)) return;
+          splitWarned.add(chain);
+          console.warn(`[warn] ${chain} RPC refused trace_filter over blocks ${from}-${to}; splitting ranges (lower --logBlocks to skip this)`);
+        },
+      },
+    );
+  } catch (e: any) {
+    // Public endpoints and plain geth nodes don't serve traces
+    if (e?.code === -32601 || /method .*(not (found|supported|available|exist))|does not exist|unsupported method/i.test(String(e?.message))) {
+      const other = TRACE_METHOD === "debug" ? "trace_filter" : "debug";
+      throw new Error(`${chain} RPC doesn't serve ${TRACE_METHOD === "debug" ? "debug_traceBlockByNumber" : "trace_filter"}; set its rpc to a tracing (archive) endpoint or try --traceMethod=${other}`);
     }
-    if (arr.length < offset) break; // last page
-    page += 1;
+    throw e;
   }
-  return out;
 }
 
-// Simple daily ETH/USD price via CoinGecko with on-process cache
-const priceCache = new Map<string, number>();
-async function getEthUsdOnDate(dateIso: string): Promise<number> {
-  const key = dateIso.slice(0, 10);
-  if (priceCache.has(key)) return priceCache.get(key)!;
-  const d = new Date(dateIso);
-  const dd = String(d.getUTCDate()).padStart(2, "0");
-  const mm = String(d.getUTCMonth() + 1).padStart(2, "0");
-  const yyyy = d.getUTCFullYear();
-  const dateStr = `${dd}-${mm}-${yyyy}`;
-  const url = `https://api.coingecko.com/api/v3/coins/ethereum/history?date=${dateStr}&localization=false`;
-  const data = await coingeckoGet(url);
-  const price = data?.market_data?.current_price?.usd;
-  if (typeof price !== "number") throw new Error("No ETH/USD price available");
-  priceCache.set(key, price);
-  return price;
+// One wallet's rows for one asset between two blocks, from the configured source
+async function fetchInboundRows(
+  chain: ChainName,
+  wallet: string,
+  token: TokenCfg | undefined,
+  startBlock: number,
+  endBlock: number,
+  opts: { maxPages: number; finalized: boolean },
+): Promise<any[]> {
+  if (SOURCE === "rpc") {
+    return token ? fetchTokenLogs(chain, wallet, token, startBlock, endBlock) : fetchInternalTraces(chain, wallet, startBlock, endBlock);
+  }
+  return fetchAccountPages(explorerChainId(chain), token ? "tokentx" : "txlistinternal", wallet, {
+    startBlock,
+    endBlock,
+    maxPages: opts.maxPages,
+    extra: token ? { contractaddress: token.address } : {},
+    finalized: opts.finalized,
+  });
+}
+
+// Daily USD price from the configured providers, for a transfer's asset on its day
+async function priceTransfer(chain: ChainName, symbol: string, tokenAddress: string, dayIso: string) {
+  return PRICER({
+    dateIso: dayIso,
+    symbol,
+    coinId: (tokenAddress ? COINGECKO_IDS_BY_ADDRESS[tokenAddress.toLowerCase()] : chainCfg(chain).nativeCoingeckoId) || null,
+    address: tokenAddress || null,
+    listed: !tokenAddress || chainCfg(chain).tokens.some((t) => t.address.toLowerCase() === tokenAddress.toLowerCase()),
+  });
 }
 
-function getArg(name: string): string {
-  return process.argv.find((a) => a.startsWith(`--${name}=`))?.split("=")[1] || "";
+// One inbound transfer priced on its day: the CSV row, the tax-template record and the JSON form
+// (webhook events and the API)
+export type InboundTransfer = {
+  key: string;
+  asset: string;
+  amount: string;
+  usd: Dec | null;
+  row: Row;
+  transfer: TransferRecord;
+  json: Record<string, unknown>;
+};
+
+async function toInboundTransfer(chain: ChainName, wallet: string, t: any, token: TokenCfg | undefined): Promise<InboundTransfer | null> {
+  const tsSec = Number(t.timeStamp || t.timestamp || 0);
+  if (!Number.isFinite(tsSec)) return null;
+  const raw = toRaw(t.value);
+  if (raw <= 0n) return null;
+  const dateIso = new Date(tsSec * 1000).toISOString();
+  const dayIso = dateIso.slice(0, 10) + "T00:00:00Z";
+  const contract = token ? token.address.toLowerCase() : "";
+  const asset = token ? token.symbol : chainCfg(chain).nativeSymbol;
+  const amount = formatAmount(raw, token ? token.decimals : chainCfg(chain).nativeDecimals);
+  const quote = await priceTransfer(chain, asset, contract, dayIso);
+  const usd = quote ? usdValue(amount, quote.usd) : null;
+  const hash = t.hash || "";
+  const from = t.from || "";
+  const to = t.to || "";
+  // A single tx can carry several transfers, so token rows also key on log index and internal
+  // ones on the trace address when the source gives it
+  const key = token
+    ? `${chain}|${wallet.toLowerCase()}|${hash.toLowerCase()}|${contract}|${t.logIndex ?? ""}`
+    : `${chain}|${wallet.toLowerCase()}|${hash.toLowerCase()}${t.traceId ? `|${t.traceId}` : ""}`;
+  const usdCol = usd ? formatUsd(usd) : "";
+  const priceCol = quote ? formatPrice(quote.usd, token ? 6 : 2) : "";
+  const base = { date_iso: dateIso, chain, wallet, ...walletCols(wallet), hash, from, to };
+  const row: Row = token
+    ? {
+      ...base,
+      token_symbol: token.symbol,
+      token_address: token.address,
+      token_decimals: String(token.decimals),
+      value: amount,
+      value_raw: String(raw),
+      token_usd: priceCol,
+      usd_value: usdCol,
+      price_source: quote?.source ?? "",
+    }
+    : { ...base, trace_id: t.traceId ?? "", value_eth: amount, value_wei: String(raw), eth_usd: priceCol, usd_value: usdCol, price_source: quote?.source ?? "" };
+  const info = walletInfo(WALLETS, wallet);
+  return {
+    key,
+    asset,
+    amount,
+    usd,
+    row,
+    transfer: {
+      dateIso,
+      direction: "in",
+      amount,
+      asset,
+      fee: "",
+      feeAsset: "",
+      usdValue: usdCol,
+      hash,
+      description: `${chain} ${token ? "token" : "internal"} transfer from ${from}`,
+    },
+    json: {
+      id: key,
+      chain,
+      wallet,
+      wallet_name: info.name,
+      wallet_label: info.label,
+      wallet_groups: info.groups,
+      hash,
+      log_index: token ? (t.logIndex ?? null) : null,
+      trace_id: token ? null : (t.traceId ?? null),
+      block_number: Number(t.blockNumber) || null,
+      date_iso: dateIso,
+      from,
+      to,
+      asset,
+      token_address: token ? token.address : null,
+      amount,
+      amount_raw: String(raw),
+      usd_price: priceCol || null,
+      usd_value: usdCol || null,
+      price_source: quote?.source ?? null,
+    },
+  };
 }
 
-async function fetchEtherscanLatestInternalLimited(
+// Inbound transfers of one asset (a token, or internal native transfers) among explorer rows, priced and deduped
+async function collectInbound(chain: ChainName, wallet: string, token: TokenCfg | undefined, rows: any[]): Promise<InboundTransfer[]> {
+  const out: InboundTransfer[] = [];
+  const seen = new Set<string>();
+  for (const t of rows) {
+    if ((t?.to || "").toLowerCase() !== wallet.toLowerCase()) continue;
+    if (token && (t.contractAddress || "").toLowerCase() !== token.address.toLowerCase()) continue;
+    const x = await toInboundTransfer(chain, wallet, t, token);
+    if (!x || seen.has(x.key)) continue;
+    seen.add(x.key);
+    out.push(x);
+  }
+  return out;
+}
+
+/** Inbound transfers of one asset to a wallet between two unix times, oldest first (used by `serve`). */
+export async function inboundTransfers(
   chain: ChainName,
+  wallet: string,
+  token: TokenCfg | undefined,
+  window: { startTs: number; endTs: number; maxPages: number },
+): Promise<InboundTransfer[]> {
+  const startBlock = await resolveBlockAtTime(chain, window.startTs, "after");
+  const endBlock = await resolveBlockAtTime(chain, window.endTs, "before");
+  const rows = await fetchInboundRows(chain, wallet, token, startBlock, endBlock, {
+    maxPages: window.maxPages,
+    finalized: isFinalizedTs(window.endTs),
+  });
+  return collectInbound(chain, wallet, token, rows.filter((t) => {
+    const ts = Number(t.timeStamp || t.timestamp || 0);
+    return ts >= window.startTs && ts <= window.endTs;
+  }));
+}
+
+async function fetchEtherscanLatestLimited(
+  chain: ChainName,
+  action: AccountAction,
   address: string,
   limit: number,
   order: "newest" | "oldest" = "newest",
+  extra: Record<string, any> = {},
 ): Promise<any[]> {
-  const url = "https://api.etherscan.io/v2/api";
-  const chainId = CHAIN_IDS[chain];
+  const chainId = explorerChainId(chain);
   const perPage = Math.max(1, Math.min(1000, limit));
   const collected: any[] = [];
   let page = 1;
@@ -309,15 +471,15 @@ async function fetchEtherscanLatestInternalLimited(
     const data = await etherscanGet({
       chainid: chainId,
       module: "account",
-      action: "txlistinternal",
+      action,
       address,
+      ...extra,
       page,
       offset: perPage,
       sort: order === "newest" ? "desc" : "asc",
       apikey: ETHERSCAN_API_KEY,
     });
-    if (data?.status !== "1") break;
-    const arr: any[] = Array.isArray(data?.result) ? data.result : [];
+    const arr = accountRows(data, `${action} for ${address} (page ${page})`);
     if (arr.length === 0) break;
     collected.push(...arr);
     if (arr.length < perPage) break;
@@ -326,24 +488,457 @@ async function fetchEtherscanLatestInternalLimited(
   return collected.slice(0, limit);
 }
 
-async function main() {
-  if (!ETHERSCAN_API_KEY) {
-    console.error("Set ETHERSCAN_API_KEY in .env for internal transactions.");
+// ---- Ledger mode: normal + internal + token transfers, both directions
+async function fetchLedgerEntries(
+  chain: ChainName,
+  wallet: string,
+  startBlock: number,
+  endBlock: number,
+  maxPages: number,
+): Promise<LedgerEntry[]> {
+  const normal = await fetchAccountTxByBlockRange(chain, "txlist", wallet, startBlock, endBlock, maxPages);
+  const internal = await fetchAccountTxByBlockRange(chain, "txlistinternal", wallet, startBlock, endBlock, maxPages);
+  const token = await fetchAccountTxByBlockRange(chain, "tokentx", wallet, startBlock, endBlock, maxPages);
+  const entries = [
+    ...toLedgerEntries(chainCfg(chain), wallet, "normal", normal),
+    ...toLedgerEntries(chainCfg(chain), wallet, "internal", internal),
+    ...toLedgerEntries(chainCfg(chain), wallet, "token", token),
+  ];
+  await addL1Fees(entries, (calls) => rpcBatch(chain, calls));
+  return entries;
+}
+
+// Balances each wallet/chain/asset key (`chain|wallet|token address or native`) held just before
+// the window, read from the archive RPC; chains whose RPC can't answer are left out with a warning
+async function openingBalances(keys: string[]): Promise<Map<string, bigint>> {
+  const out = new Map<string, bigint>();
+  const byChain = new Map<ChainName, string[]>();
+  for (const k of keys) {
+    const chain = k.split("|")[0]!;
+    byChain.set(chain, [...(byChain.get(chain) ?? []), k]);
+  }
+  for (const [chain, chainKeys] of byChain) {
+    const url = sourceRpcUrl(chain);
+    try {
+      const block = "0x" + Math.max(0, (await resolveBlockAtTime(chain, START_TS, "after")) - 1).toString(16);
+      for (let i = 0; i < chainKeys.length; i += 100) {
+        const slice = chainKeys.slice(i, i + 100);
+        const results = await rpcBatch(chain, slice.map((k) => {
+          const [, wallet, asset] = k.split("|") as [string, string, string];
+          return asset === "native"
+            ? { method: "eth_getBalance", params: [wallet, block] }
+            : { method: "eth_call", params: [{ to: asset, data: "0x70a08231" + wallet.slice(2).padStart(64, "0") }, block] };
+        }), url);
+        slice.forEach((k, j) => out.set(k, BigInt(results[j] === "0x" ? 0 : results[j])));
+      }
+    } catch (e: any) {
+      console.warn(`[warn] ${chain}: opening balances unavailable (${e?.message || String(e)}); running_balance left empty there (needs an archive rpc)`);
+    }
+  }
+  return out;
+}
+
+async function writeLedger(
+  scoped: Map<ChainName, string[]>,
+  outFile: string,
+  opts: {
+    cap: number;
+    maxPages: number;
+    chunkDays: number;
+    concurrency: number;
+    dryRun: boolean;
+    format: OutputFormat;
+    outBase: string;
+    period: string;
+  },
+): Promise<void> {
+  let failed = 0;
+  const units = Array.from(scoped).flatMap(([chain, wallets]) => wallets.map((wallet) => ({ chain, wallet })));
+  const perWallet = await mapConcurrent(units, opts.concurrency, async ({ chain, wallet }) => {
+    const out: LedgerEntry[] = [];
+    try {
+      const daySeconds = 24 * 60 * 60;
+      const spanSeconds = opts.chunkDays > 0 ? opts.chunkDays * daySeconds : END_TS - START_TS + 1;
+      let chunkStartTs = START_TS;
+      while (chunkStartTs <= END_TS) {
+        const chunkEndTs = Math.min(END_TS, chunkStartTs + spanSeconds - 1);
+        const startBlock = await resolveBlockAtTime(chain, chunkStartTs, "after");
+        const endBlock = await resolveBlockAtTime(chain, chunkEndTs, "before");
+        out.push(...await fetchLedgerEntries(chain, wallet, startBlock, endBlock, opts.maxPages));
+        chunkStartTs = chunkEndTs + 1;
+      }
+    } catch (e: any) {
+      failed += 1;
+      console.error(`[error] ${chain}:${wallet} ->`, e?.response?.data || e?.message || String(e));
+    }
+    return out;
+  });
+  // A ledger missing a wallet's rows would look complete, so nothing is written
+  if (failed > 0) {
+    console.error(`${failed} wallet(s) failed; no ledger written to ./${outFile}. Rerun to retry (a smaller --chunkDays helps with explorer result limits).`);
+    process.exit(1);
+  }
+  const entries: LedgerEntry[] = [];
+  const seen = new Set<string>();
+  for (const e of perWallet.flat()) {
+    if (seen.has(e.key)) continue;
+    seen.add(e.key);
+    entries.push(e);
+  }
+
+  entries.sort(compareLedgerEntries);
+  const rows = entries.slice(0, opts.cap);
+
+  if (opts.dryRun) {
+    console.log(`[dryRun] Would write ${rows.length} ledger rows to ./${outFile}`);
+    return;
+  }
+
+  const writer = openRowWriter(outFile, opts.format, [
+    "date_iso",
+    "chain",
+    "wallet",
+    "wallet_name",
+    "wallet_label",
+    "wallet_groups",
+    "block_number",
+    "hash",
+    "tx_type",
+    "direction",
+    "counterparty",
+    "asset",
+    "token_address",
+    "amount",
+    "amount_raw", // base units
+    "fee_eth",
+    "fee_wei",
+    "running_balance",
+    "usd_price",
+    "usd_value",
+    "price_source",
+  ]);
+
+  // Running balance per wallet/chain/asset: the opening balance before the window plus each row's flow
+  const summary: Summary = {};
+  const keyOf = (chain: ChainName, wallet: string, asset: string) => `${chain}|${wallet.toLowerCase()}|${asset.toLowerCase()}`;
+  const balances = await openingBalances(Array.from(new Set(rows.flatMap((e) => [
+    keyOf(e.chain, e.wallet, e.tokenAddress || "native"),
+    ...(e.feeRaw > 0n ? [keyOf(e.chain, e.wallet, "native")] : []),
+  ]))));
+  const bump = (chain: ChainName, wallet: string, asset: string, delta: bigint) => {
+    const k = keyOf(chain, wallet, asset);
+    const prev = balances.get(k);
+    if (prev == null) return null;
+    balances.set(k, prev + delta);
+    return prev + delta;
+  };
+
+  for (const e of rows) {
+    const asset = e.tokenAddress || "native";
+    const nativeDecimals = chainCfg(e.chain).nativeDecimals;
+    const sign = e.direction === "in" ? 1n : e.direction === "out" ? -1n : 0n;
+    let running = bump(e.chain, e.wallet, asset, sign * e.amountRaw);
+    if (e.feeRaw > 0n) {
+      const afterFee = bump(e.chain, e.wallet, "native", -e.feeRaw);
+      if (!e.tokenAddress) running = afterFee;
+    }
+    const dateIso = new Date(e.tsSec * 1000).toISOString();
+    const dayIso = dateIso.slice(0, 10) + "T00:00:00Z";
+    const quote = e.amountRaw > 0n || e.feeRaw > 0n ? await priceTransfer(e.chain, e.symbol, e.tokenAddress, dayIso) : null;
+    const price = quote?.usd ?? null;
+    const amount = formatAmount(e.amountRaw, e.decimals);
+    const fee = e.feeRaw > 0n ? formatAmount(e.feeRaw, nativeDecimals) : "";
+    const usd = price != null ? usdValue(amount, price) : null;
+    const usdCol = usd ? formatUsd(usd) : "";
+    // Group/chain/asset totals are net flows: receipts minus sends, gas not included
+    addToSummary(summary, {
+      period: opts.period,
+      chain: e.chain,
+      asset: e.symbol,
+      groups: walletInfo(WALLETS, e.wallet).groups,
+      amount: formatAmount(sign * e.amountRaw, e.decimals),
+      usd: usd ? formatUsd(sign < 0n ? usd.neg() : sign > 0n ? usd : ZERO) : null,
+    });
+    await writer.write({
+      date_iso: dateIso,
+      chain: e.chain,
+      wallet: e.wallet,
+      ...walletCols(e.wallet),
+      block_number: String(e.block),
+      hash: e.hash,
+      tx_type: e.txType,
+      direction: e.direction,
+      counterparty: e.counterparty,
+      asset: e.symbol,
+      token_address: e.tokenAddress,
+      amount,
+      amount_raw: String(e.amountRaw),
+      fee_eth: fee,
+      fee_wei: e.feeRaw > 0n ? String(e.feeRaw) : "",
+      running_balance: running != null ? formatAmount(running, e.decimals) : "",
+      usd_price: price != null ? formatPrice(price, e.tokenAddress ? 6 : 2) : "",
+      usd_value: usdCol,
+      price_source: quote?.source ?? "",
+    }, {
+      dateIso,
+      direction: e.direction,
+      amount,
+      asset: e.symbol,
+      fee,
+      feeAsset: chainCfg(e.chain).nativeSymbol,
+      usdValue: usdCol,
+      hash: e.hash,
+      description: `${e.chain} ${e.txType} ${e.direction === "in" ? "from" : "to"} ${e.counterparty}`,
+    });
+  }
+  await writer.close();
+  console.log(`Wrote ${rows.length} ledger rows to ./${outFile}`);
+  const sRows = summaryRows(summary);
+  printSummary(sRows);
+  console.log(`Wrote ${sRows.length} summary rows to ./${await writeSummary(opts.outBase, sRows)}`);
+}
+
+// ---- Watch mode: poll each wallet from its last reported block, append rows and post them to the webhook
+async function watchInbound(
+  scoped: Map<ChainName, string[]>,
+  outFile: string,
+  opts: {
+    format: OutputFormat;
+    header: string[];
+    tokensFor: (chain: ChainName) => TokenCfg[];
+    tokenMode: boolean;
+    startTs: number | null; // first poll starts here when there's no cursor yet; otherwise at the head
+    intervalSec: number;
+    confirmations: number;
+    maxPages: number;
+    once: boolean;
+    webhook: WebhookOpts | null;
+  },
+): Promise<void> {
+  const state: WatchState = (await loadWatchState(outFile)) ?? { cursors: {} };
+  // Keys written and posted since their cursor was last saved (see checkpoint.mts)
+  const delivered = new Set(await loadSeenKeys(outFile, Number.POSITIVE_INFINITY));
+  const existing = await stat(outFile).catch(() => null);
+  const writer = openRowWriter(outFile, opts.format, opts.header, existing ? { append: true, startBytes: existing.size } : {});
+  const failedFile = `${outFile}.webhook-failed.ndjson`;
+
+  // Ctrl-C lets the poll in progress finish so rows, webhooks and cursors stay in step
+  let stopping = false;
+  let timer: NodeJS.Timeout | undefined;
+  let wake: (() => void) | undefined;
+  process.once("SIGINT", () => {
+    stopping = true;
+    console.log("Stopping after the current poll...");
+    clearTimeout(timer);
+    wake?.();
+  });
+
+  console.log(`Watching ${Array.from(scoped.values()).flat().length} wallet(s) into ./${outFile}${opts.webhook ? ` -> ${opts.webhook.url}` : ""}`);
+  while (!stopping) {
+    let found = 0;
+    for (const [chain, wallets] of scoped) {
+      if (wallets.length === 0 || stopping) continue;
+      try {
+        // Stay a few blocks behind the head so the explorer has indexed what we ask for
+        const safe = (await rpcGetLatestBlockNumber(chain)) - opts.confirmations;
+        for (const wallet of wallets) {
+          for (const token of opts.tokenMode ? opts.tokensFor(chain) : [undefined]) {
+            const cursorKey = `${chain}|${wallet.toLowerCase()}|${token ? token.address.toLowerCase() : "native"}`;
+            let last = state.cursors[cursorKey];
+            if (last == null) {
+              last = opts.startTs != null ? (await resolveBlockAtTime(chain, opts.startTs, "after")) - 1 : safe;
+            }
+            if (last >= safe) {
+              state.cursors[cursorKey] = last;
+              continue;
+            }
+            const rows = await fetchInboundRows(chain, wallet, token, last + 1, safe, { maxPages: opts.maxPages, finalized: false });
+            const batch: string[] = [];
+            for (const x of await collectInbound(chain, wallet, token, rows)) {
+              batch.push(x.key);
+              if (delivered.has(x.key)) continue;
+              await writer.write(x.row, x.transfer);
+              await writer.flush();
+              found += 1;
+              console.log(`${x.row.date_iso} ${chain}:${wallet} +${x.amount} ${x.asset}${x.usd ? ` ($${formatUsd(x.usd)})` : ""} ${x.row.hash}`);
+              if (opts.webhook) {
+                const event = { event: "inbound_transfer", ...x.json };
+                try {
+                  await postWebhook(event, opts.webhook);
+                } catch (e: any) {
+                  // Kept for a manual resend; the watch carries on
+                  console.error(`[error] Webhook for ${x.key} failed: ${e?.message || String(e)}; saved to ./${failedFile}`);
+                  await appendFile(failedFile, JSON.stringify(event) + "\n", "utf8");
+                }
+              }
+              delivered.add(x.key);
+              await appendSeenKeys(outFile, [x.key]);
+            }
+            state.cursors[cursorKey] = safe;
+            await saveWatchState(outFile, state);
+            // Past the saved cursor now, so a restart won't fetch them again
+            for (const k of batch) delivered.delete(k);
+            await writeSeenKeys(outFile, delivered);
+          }
+        }
+      } catch (e: any) {
+        // Cursors only move past what was written, so the next poll retries the rest
+        console.error(`[error] ${chain} poll ->`, e?.response?.data || e?.message || String(e));
+      }
+    }
+    await saveWatchState(outFile, state);
+    if (found > 0) console.log(`${found} new transfer(s)`);
+    if (opts.once) break;
+    if (!stopping) await new Promise<void>((r) => { wake = r; timer = setTimeout(r, opts.intervalSec * 1000); });
+  }
+  await writer.close();
+}
+
+// ---- CLI: options and entry point
+export const command: CommandSpec = {
+  name: "inbound",
+  summary: "Collect inbound transfers (internal native or ERC-20) per wallet from Etherscan, or the full ledger with --mode ledger.",
+  options: [
+    { name: "year", type: "int", env: "YEAR", min: 2015, default: YEAR, description: "Calendar year to fetch" },
+    { name: "start", type: "date", env: "START", description: "Start of a custom window; overrides --year" },
+    { name: "end", type: "date", env: "END", description: "End of a custom window; overrides --year" },
+    {
+      name: "mode",
+      type: "enum",
+      env: "MODE",
+      values: ["range", "latest", "ledger", "watch"],
+      default: "range",
+      description: "range: the year/window; latest: most recent transfers; ledger: every tx in and out; watch: poll for new transfers",
+    },
+    { name: "asset", type: "list", env: "ASSET", default: "NATIVE", placeholder: "NATIVE|ETH|USDC,...", description: "Native asset or configured token symbols" },
+    { name: "wallet", type: "string", env: "ONLY_WALLET", placeholder: "0x...|name", description: "Limit to one wallet, by address or name" },
+    { name: "chain", type: "string", env: "ONLY_CHAIN", placeholder: "name", description: "Limit to one configured chain, by name or alias" },
+    { name: "limit", type: "int", env: "LIMIT", min: 1, default: 200000, description: "Cap on collected rows" },
+    { name: "order", type: "enum", env: "ORDER", values: ["newest", "oldest"], default: "newest", description: "Sort direction for --mode latest" },
+    { name: "maxPages", type: "int", env: "MAX_PAGES", min: 1, default: 100, description: "Explorer pages per wallet and chunk" },
+    {
+      name: "source",
+      type: "enum",
+      env: "TRANSFER_SOURCE",
+      values: TRANSFER_SOURCES,
+      default: "etherscan",
+      description: "etherscan: the Etherscan v2 API; rpc: Transfer logs and traces from each chain's RPC (no API key)",
+    },
+    { name: "logBlocks", type: "int", env: "LOG_BLOCKS", min: 1, default: 100000, description: "Blocks per eth_getLogs / trace_filter call with --source rpc; halved when the RPC refuses" },
+    {
+      name: "traceMethod",
+      type: "enum",
+      env: "TRACE_METHOD",
+      values: TRACE_METHODS,
+      default: "trace_filter",
+      description: "How --source rpc finds internal transfers: trace_filter, or debug (replays blocks with geth's callTracer)",
+    },
+    { name: "chunkDays", type: "int", env: "CHUNK_DAYS", min: 0, default: 0, description: "Split the window into N-day chunks; 0 keeps one range" },
+    { name: "dryRun", type: "boolean", env: "DRY_RUN", description: "Skip writing the file; print a summary" },
+    { name: "resume", type: "boolean", env: "RESUME", description: "Continue an interrupted run with the same options" },
+    { name: "interval", type: "int", env: "WATCH_INTERVAL", min: 5, default: 60, description: "Seconds between polls in --mode watch" },
+    { name: "confirmations", type: "int", env: "WATCH_CONFIRMATIONS", min: 0, default: 5, description: "Blocks --mode watch stays behind the head" },
+    { name: "once", type: "boolean", env: "WATCH_ONCE", description: "Poll once and exit (--mode watch)" },
+    { name: "webhook", type: "string", env: "WEBHOOK_URL", placeholder: "https://...", description: "POST each new transfer here as JSON (--mode watch)" },
+    { name: "webhookRetries", type: "int", env: "WEBHOOK_RETRIES", min: 0, default: 5, description: "Webhook retries after the first attempt" },
+    CONCURRENCY_OPTION,
+    ...NETWORK_OPTIONS,
+  ],
+  env: [
+    { name: "WALLETS", description: "Comma-separated [chain:]address-or-name[|label|group;group] entries; overrides the config's wallets" },
+    { name: "ETHERSCAN_API_KEY", description: "Required unless --source rpc" },
+    { name: "LATEST_MODE", description: "1 behaves like --mode latest when no mode is given" },
+    { name: "WEBHOOK_SECRET", description: "Signs --webhook posts (HMAC-SHA256); unsigned when unset" },
+  ],
+  examples: [
+    "walletbalance inbound --year 2024 --asset USDC",
+    "walletbalance inbound --mode ledger --year 2024 --format koinly",
+    "walletbalance inbound --mode watch --asset USDC --webhook https://example.com/hooks/transfers",
+    "walletbalance inbound --source rpc --asset USDC --year 2024 --chunkDays 30",
+    "walletbalance inbound --source rpc --chain base --start 2024-03-01 --end 2024-03-31",
+  ],
+};
+
+export async function main(argv: string[]) {
+  const args = readArgs(command, argv);
+  // Recording and replaying bypass the cache so every external response is captured / served
+  const record = args.str("record");
+  const replay = args.str("replay");
+  configureCache({
+    enabled: !args.flag("no-cache") && !record && !replay,
+    dir: args.str("cacheDir"),
+  });
+  try {
+    configureTransport({ record, replay });
+  } catch (e: any) {
+    console.error(e?.message || String(e));
+    process.exit(1);
+  }
+  const source = args.str("source") as TransferSource;
+  if (source === "etherscan" && !ETHERSCAN_API_KEY) {
+    console.error("Set ETHERSCAN_API_KEY in .env for internal transactions (or use --source=rpc to read each chain's RPC).");
+    process.exit(1);
+  }
+  let config: Config;
+  let pricer: Pricer;
+  try {
+    config = await loadConfig(args.str("config"));
+    configureLimits(config.limits);
+    pricer = await pricerFromConfig(
+      applyPriceArgs(config.prices, { order: args.str("prices"), file: args.str("priceFile") }),
+    );
+  } catch (e: any) {
+    console.error(e?.message || String(e));
+    process.exit(1);
+  }
+  let scoped: Map<ChainName, string[]>;
+  try {
+    // Names resolve at the latest block: transfers are attributed to the wallet a name points to now
+    const raw = rawWallets(config);
+    const names = walletNames(raw);
+    const parsed = parseWallets(raw, config, names.length > 0 ? await resolveNames(names, config) : undefined);
+    configureInbound(config, pricer, parsed, {
+      source,
+      logBlocks: args.num("logBlocks"),
+      traceMethod: args.str("traceMethod") as TraceMethod,
+    });
+    scoped = inboundScope(config, parsed);
+  } catch (e: any) {
+    console.error(e?.shortMessage || e?.message || String(e));
     process.exit(1);
   }
-  const scoped = parseWallets(RAW_WALLETS);
+  // Chains without explorer coverage can't be queried through Etherscan
+  for (const c of config.chains) {
+    if (source === "etherscan" && c.explorerChainId == null && (scoped.get(c.name) ?? []).length > 0) {
+      console.warn(`[warn] ${c.name} has no explorer API coverage; skipping it`);
+      scoped.set(c.name, []);
+    }
+  }
   // Optional runtime filters
-  const onlyWallet = (getArg("wallet") || process.env.ONLY_WALLET || "").toLowerCase();
-  const onlyChainArg = (getArg("chain") || process.env.ONLY_CHAIN || "").toLowerCase();
-  const cap = Number(getArg("limit") || process.env.LIMIT || "200000") || 200000;
-  const latestMode = (getArg("mode") === "latest") || process.env.LATEST_MODE === "1";
-  const orderArg = (getArg("order") || process.env.ORDER || "newest").toLowerCase() as "newest" | "oldest";
-  const yearArg = Number(getArg("year") || process.env.YEAR || "0");
-  const maxPages = Math.max(1, Number(getArg("maxPages") || process.env.MAX_PAGES || "100") || 100);
-  const dryRun = (getArg("dryRun") === "1") || process.env.DRY_RUN === "1";
-  const startArg = getArg("start") || process.env.START || "";
-  const endArg = getArg("end") || process.env.END || "";
-  const chunkDays = Math.max(0, Number(getArg("chunkDays") || process.env.CHUNK_DAYS || "0") || 0);
+  const onlyWallet = args.str("wallet").toLowerCase();
+  const onlyChainArg = args.str("chain").toLowerCase();
+  const cap = args.num("limit");
+  const modeArg = args.str("mode");
+  const latestMode = modeArg === "latest" || (!args.has("mode") && process.env.LATEST_MODE === "1");
+  const ledgerMode = modeArg === "ledger";
+  const watchMode = modeArg === "watch";
+  const orderArg = args.str("order") as "newest" | "oldest";
+  const yearArg = args.num("year");
+  const maxPages = args.num("maxPages");
+  const dryRun = args.flag("dryRun");
+  const resume = args.flag("resume");
+  const format: OutputFormat = parseFormat(args.str("format"));
+  const startArg = args.str("start");
+  const endArg = args.str("end");
+  const chunkDays = args.num("chunkDays");
+  const concurrency = args.num("concurrency");
+  // No --asset (or NATIVE) keeps internal native transfers on every chain; a native symbol (ETH, POL)
+  // keeps them on chains with that native asset; any other symbol list (e.g. USDC or USDC,OP) pulls ERC-20 transfers
+  const assetSymbols = args.list("asset").map((s) => s.toUpperCase());
+  const nativeSymbols = new Set(["NATIVE", ...config.chains.map((c) => c.nativeSymbol.toUpperCase())]);
+  const tokenMode = !(assetSymbols.length === 1 && nativeSymbols.has(assetSymbols[0]!));
+  const tokensFor = (chain: ChainName): TokenCfg[] =>
+    tokenMode ? chainCfg(chain).tokens.filter((t) => assetSymbols.includes(t.symbol.toUpperCase())) : [];
 
   // Custom range overrides year if provided
   if (startArg || endArg) {
@@ -353,7 +948,7 @@ async function main() {
     END_ISO = endIso;
     START_TS = Math.floor(new Date(START_ISO).getTime() / 1000);
     END_TS = Math.floor(new Date(END_ISO).getTime() / 1000);
-  } else if (Number.isFinite(yearArg) && yearArg > 0) {
+  } else {
     YEAR = yearArg;
     START_ISO = `${YEAR}-01-01T00:00:00Z`;
     END_ISO = `${YEAR}-12-31T23:59:59Z`;
@@ -362,181 +957,376 @@ async function main() {
   }
 
   if (onlyWallet) {
-    for (const c of ["base", "optimism"] as ChainName[]) {
-      scoped[c] = scoped[c].filter((a) => a.toLowerCase() === onlyWallet);
+    for (const [c, wallets] of scoped) {
+      scoped.set(c, wallets.filter((a) => a.toLowerCase() === onlyWallet || walletInfo(WALLETS, a).name === onlyWallet));
     }
   }
 
-  if (onlyChainArg === "base" || onlyChainArg === "optimism") {
-    if (onlyChainArg === "base") scoped.optimism = [];
-    if (onlyChainArg === "optimism") scoped.base = [];
+  if (onlyChainArg) {
+    const only = getChain(config, onlyChainArg);
+    if (!only) {
+      console.error(`Unknown --chain ${onlyChainArg}. Configured chains: ${config.chains.map((c) => c.name).join(", ")}`);
+      process.exit(1);
+    }
+    for (const c of scoped.keys()) {
+      if (c !== only.name) scoped.set(c, []);
+    }
+  }
+
+  if (!tokenMode && !ledgerMode && assetSymbols[0] !== "NATIVE") {
+    for (const c of config.chains) {
+      if (c.nativeSymbol.toUpperCase() !== assetSymbols[0]) scoped.set(c.name, []);
+    }
   }
 
-  if (scoped.base.length + scoped.optimism.length === 0) {
+  if (tokenMode && !ledgerMode) {
+    const known = new Set(config.chains.flatMap((c) => c.tokens).map((t) => t.symbol.toUpperCase()));
+    const unknown = assetSymbols.filter((s) => !known.has(s));
+    if (unknown.length > 0) {
+      console.error(`Unknown --asset ${unknown.join(",")}. Configured tokens: ${Array.from(known).join(", ")}`);
+      process.exit(1);
+    }
+    // Skip chains where none of the requested tokens are configured
+    for (const c of scoped.keys()) {
+      if (tokensFor(c).length === 0) scoped.set(c, []);
+    }
+  }
+
+  if (Array.from(scoped.values()).every((wallets) => wallets.length === 0)) {
     console.error("Set WALLETS in .env (e.g. base:0x..,op:0x.. or 0x..)");
     process.exit(1);
   }
 
   const outDir = "csvs";
-  let outFile = latestMode
-    ? `${outDir}/latest_internal_eth.csv`
-    : `${outDir}/${YEAR}_internal_eth.csv`;
-  if (!latestMode && (startArg || endArg)) {
+  const kind = ledgerMode
+    ? "ledger"
+    : tokenMode
+      ? `inbound_${assetSymbols.join("_").toLowerCase()}`
+      : ["NATIVE", "ETH"].includes(assetSymbols[0]!) ? "internal_eth" : `internal_${assetSymbols[0]!.toLowerCase()}`;
+  let outBase = latestMode
+    ? `${outDir}/latest_${kind}`
+    : watchMode ? `${outDir}/watch_${kind}` : `${outDir}/${YEAR}_${kind}`;
+  if (!latestMode && !watchMode && (startArg || endArg)) {
     const s = START_ISO.slice(0, 10);
     const e = END_ISO.slice(0, 10);
-    outFile = `${outDir}/${s}_to_${e}_internal_eth.csv`;
+    outBase = `${outDir}/${s}_to_${e}_${kind}`;
   }
+  const outFile = outputPath(outBase, format);
+  const period = latestMode ? "latest" : `${START_ISO.slice(0, 10)}_to_${END_ISO.slice(0, 10)}`;
   await mkdir(outDir, { recursive: true });
 
-  const header = [
-    "date_iso",
-    "chain",
-    "wallet",
-    "hash",
-    "from",
-    "to",
-    "value_eth",
-    "eth_usd",
-    "usd_value",
-  ];
+  // Logs and traces are scanned by block range; the ledger and "latest N" need the explorer's account index
+  if (source === "rpc" && (ledgerMode || latestMode)) {
+    console.error("--source=rpc scans block ranges: use --mode=range or watch (the ledger and --mode=latest need the explorer).");
+    process.exit(1);
+  }
+
+  if (resume && (ledgerMode || watchMode || dryRun || format === "json")) {
+    console.error("--resume works for inbound runs only (not --mode=ledger, --mode=watch, --dryRun or --format=json).");
+    process.exit(1);
+  }
+
+  // Watch appends as it goes and always continues from its cursors
+  const webhookUrl = args.str("webhook");
+  if (watchMode && (dryRun || format === "json")) {
+    console.error("--mode=watch appends to its output; it can't be combined with --dryRun or --format=json.");
+    process.exit(1);
+  }
+  if (webhookUrl && !watchMode) {
+    console.error("--webhook is only used with --mode=watch.");
+    process.exit(1);
+  }
+  if (webhookUrl && !URL.canParse(webhookUrl)) {
+    console.error(`Invalid --webhook URL: ${webhookUrl}`);
+    process.exit(1);
+  }
+  const webhookSecret = process.env.WEBHOOK_SECRET || "";
+  if (webhookUrl && !webhookSecret) console.warn("[warn] WEBHOOK_SECRET is not set; webhooks are sent unsigned");
 
-  let totalEth = 0;
-  let totalUsd = 0;
+  if (ledgerMode) {
+    await writeLedger(scoped, outFile, { cap, maxPages, chunkDays, concurrency, dryRun, format, outBase, period });
+    printThroughput();
+    return;
+  }
+
+  const header = tokenMode
+    ? [
+      "date_iso",
+      "chain",
+      "wallet",
+      "wallet_name",
+      "wallet_label",
+      "wallet_groups",
+      "hash",
+      "from",
+      "to",
+      "token_symbol",
+      "token_address",
+      "token_decimals",
+      "value",
+      "value_raw", // base units
+      "token_usd",
+      "usd_value",
+      "price_source",
+    ]
+    : [
+      "date_iso",
+      "chain",
+      "wallet",
+      "wallet_name",
+      "wallet_label",
+      "wallet_groups",
+      "hash",
+      "from",
+      "to",
+      "trace_id",
+      "value_eth",
+      "value_wei",
+      "eth_usd",
+      "usd_value",
+      "price_source",
+    ];
+
+  if (watchMode) {
+    await watchInbound(scoped, outFile, {
+      format,
+      header,
+      tokensFor,
+      tokenMode,
+      startTs: startArg ? START_TS : null,
+      intervalSec: args.num("interval"),
+      confirmations: args.num("confirmations"),
+      maxPages,
+      once: args.flag("once"),
+      webhook: webhookUrl ? { url: webhookUrl, secret: webhookSecret, retries: args.num("webhookRetries") } : null,
+    });
+    printThroughput();
+    return;
+  }
+
+  let totalAmount = ZERO;
+  let totalUsd = ZERO;
   let written = 0;
+  let summary: Summary = {};
   const seen = new Set<string>();
   const reached = { cap: false };
-  let writer: import("node:fs").WriteStream | null = null;
-  if (!dryRun) {
-    writer = createWriteStream(outFile, { encoding: "utf8" });
-    await writeLine(writer, header.join(","));
+  let writer: RowWriter | null = null;
+
+  // Checkpoints: --resume continues a run with the same options, appending to its CSV
+  const run = JSON.stringify({
+    kind, format, source, start: START_ISO, end: END_ISO, latestMode, orderArg, chunkDays, maxPages, cap, onlyWallet, onlyChainArg,
+  });
+  let checkpoint: Checkpoint = {
+    run, bytes: 0, seenCount: 0, done: [], positions: [], totals: { amount: "0", usd: "0", written: 0 }, summary: {},
+  };
+  let newKeys: string[] = [];
+  if (resume) {
+    const prev = await loadCheckpoint(outFile);
+    if (!prev) {
+      console.error(`No checkpoint for ./${outFile}; run without --resume to start it.`);
+      process.exit(1);
+    }
+    if (prev.run !== run) {
+      console.error(`The checkpoint for ./${outFile} was written with different options; rerun with those or drop --resume to start over.`);
+      process.exit(1);
+    }
+    checkpoint = prev;
+    for (const key of await loadSeenKeys(outFile, prev.seenCount)) seen.add(key);
+    // Rows past the checkpoint belong to a page that didn't finish; it gets fetched again
+    await truncate(outFile, prev.bytes);
+    totalAmount = new Dec(prev.totals.amount);
+    totalUsd = new Dec(prev.totals.usd);
+    written = prev.totals.written;
+    summary = prev.summary;
+    writer = openRowWriter(outFile, format, header, { append: true, startBytes: prev.bytes });
+    console.log(`Resuming ./${outFile}: ${prev.done.length} wallet(s) done, ${written} rows written`);
+  } else if (!dryRun) {
+    await clearCheckpoint(outFile);
+    writer = openRowWriter(outFile, format, header);
   }
 
-  for (const chain of ["base", "optimism"] as ChainName[]) {
-    const wallets = scoped[chain];
-    if (wallets.length === 0) continue;
+  // Wallets fetch side by side with --concurrency, but each page's rows and checkpoint go out
+  // together, one page at a time
+  let writing: Promise<unknown> = Promise.resolve();
+  const exclusive = <T,>(fn: () => Promise<T>): Promise<T> => {
+    const next = writing.then(fn);
+    writing = next.catch(() => {});
+    return next;
+  };
+
+  // Flush rows, then record their keys and the position the wallet reached (null once it's done)
+  const saveProgress = async (chain: ChainName, wallet: string, position: CheckpointPosition | null) => {
+    if (!writer) return;
+    await writer.flush();
+    await appendSeenKeys(outFile, newKeys);
+    checkpoint = {
+      ...checkpoint,
+      bytes: writer.bytes,
+      seenCount: checkpoint.seenCount + newKeys.length,
+      positions: [...checkpoint.positions.filter((p) => p.chain !== chain || p.wallet !== wallet), ...(position ? [position] : [])],
+      totals: { amount: totalAmount.toFixed(), usd: totalUsd.toFixed(2), written },
+      summary,
+    };
+    newKeys = [];
+    await saveCheckpoint(outFile, checkpoint);
+  };
 
-    for (const wallet of wallets) {
+  // Page through the explorer for one wallet and chunk (internal ETH, or tokentx per requested token),
+  // writing rows and checkpointing after every page
+  const fetchRange = async (
+    chain: ChainName,
+    wallet: string,
+    chunk: number,
+    startBlock: number,
+    endBlock: number,
+    pos: CheckpointPosition | null,
+  ) => {
+    const tokens = tokenMode ? tokensFor(chain).map((t) => t.address as string) : [""];
+    const from = pos ? Math.max(0, tokens.indexOf(pos.token)) : 0;
+    let lastBlock = pos?.lastBlock ?? 0;
+    for (const [i, token] of tokens.entries()) {
+      if (i < from || reached.cap) continue;
+      if (SOURCE === "rpc") {
+        // One log or trace scan per asset and chunk; a checkpoint past its first "page" means the scan finished
+        if (pos && i === from && pos.page > 1) continue;
+        const rows = token
+          ? await fetchTokenLogs(chain, wallet, tokensFor(chain)[i]!, startBlock, endBlock)
+          : await fetchInternalTraces(chain, wallet, startBlock, endBlock);
+        await exclusive(async () => {
+          await emitInbound(chain, wallet, rows);
+          for (const t of rows) lastBlock = Math.max(lastBlock, Number(t.blockNumber) || 0);
+          await saveProgress(chain, wallet, { chain, wallet, chunk, token, page: 2, lastBlock });
+        });
+        continue;
+      }
+      const action: AccountAction = token ? "tokentx" : "txlistinternal";
+      await fetchAccountTxByBlockRange(chain, action, wallet, startBlock, endBlock, maxPages,
+        token ? { contractaddress: token } : {},
+        {
+          startPage: pos && i === from ? pos.page : 1,
+          onPage: (page, rows) => exclusive(async () => {
+            if (reached.cap) return;
+            await emitInbound(chain, wallet, rows);
+            for (const t of rows) lastBlock = Math.max(lastBlock, Number(t.blockNumber) || 0);
+            await saveProgress(chain, wallet, { chain, wallet, chunk, token, page: page + 1, lastBlock });
+          }),
+        });
+    }
+  };
+
+  const fetchLatest = async (chain: ChainName, wallet: string) => {
+    if (!tokenMode) {
+      return fetchEtherscanLatestLimited(chain, "txlistinternal", wallet, cap, orderArg);
+    }
+    const out: any[] = [];
+    for (const token of tokensFor(chain)) {
+      out.push(...await fetchEtherscanLatestLimited(chain, "tokentx", wallet, cap, orderArg, {
+        contractaddress: token.address,
+      }));
+    }
+    return out;
+  };
+
+  // Filter to inbound, price on the day and write rows (shared by range and latest modes)
+  const emitInbound = async (chain: ChainName, wallet: string, txs: any[]) => {
+    const inbound = txs.filter((t) => (t?.to || "").toLowerCase() === wallet.toLowerCase());
+    for (const t of inbound) {
       if (reached.cap) break;
-      try {
-        if (latestMode) {
-          // Latest mode (not chunked)
-          const internalTxs = await fetchEtherscanLatestInternalLimited(chain, wallet, cap, orderArg);
-          const internalInbound = internalTxs.filter((t) => (t?.to || "").toLowerCase() === wallet.toLowerCase());
-          for (const t of internalInbound) {
-            if (reached.cap) break;
-            const tsSec = Number(t.timeStamp || t.timestamp || 0);
-            if (!Number.isFinite(tsSec)) continue;
-            const dateIso = new Date(tsSec * 1000).toISOString();
-            const dayIso = dateIso.slice(0, 10) + "T00:00:00Z";
-            const eth = Number(t.value) / 1e18;
-            if (!Number.isFinite(eth) || eth <= 0) continue;
-            let usd = 0;
-            try { const price = await getEthUsdOnDate(dayIso); usd = eth * price; } catch {}
-            const hash = t.hash || "";
-            const from = t.from || "";
-            const to = t.to || "";
-            const key = `${chain}|${wallet.toLowerCase()}|${hash.toLowerCase()}`;
-            if (seen.has(key)) continue;
-            seen.add(key);
-            totalEth += eth;
-            totalUsd += usd || 0;
-            written += 1;
-            if (!dryRun && writer) {
-              await writeLine(writer, [
-                dateIso, chain, wallet, hash, from, to,
-                eth.toFixed(6), usd ? (usd / eth).toFixed(2) : "", usd ? usd.toFixed(2) : "",
-              ].join(","));
-            }
-            if (written >= cap) { reached.cap = true; break; }
-          }
-        } else if (chunkDays > 0) {
-          // Chunked date-bounded mode
-          const daySeconds = 24 * 60 * 60;
-          let chunkStartTs = START_TS;
-          while (chunkStartTs <= END_TS && !reached.cap) {
-            const chunkEndTs = Math.min(END_TS, chunkStartTs + (chunkDays * daySeconds) - 1);
-            const startBlock = await resolveBlockAtTime(chain, chunkStartTs, "after");
-            const endBlock = await resolveBlockAtTime(chain, chunkEndTs, "before");
-            const internalTxs = await fetchInternalByBlockRange(chain, wallet, startBlock, endBlock, maxPages);
-            const internalInbound = internalTxs.filter((t) => (t?.to || "").toLowerCase() === wallet.toLowerCase());
-            for (const t of internalInbound) {
-              if (reached.cap) break;
-              const tsSec = Number(t.timeStamp || t.timestamp || 0);
-              if (!Number.isFinite(tsSec)) continue;
-              const dateIso = new Date(tsSec * 1000).toISOString();
-              const dayIso = dateIso.slice(0, 10) + "T00:00:00Z";
-              const eth = Number(t.value) / 1e18;
-              if (!Number.isFinite(eth) || eth <= 0) continue;
-              let usd = 0;
-              try { const price = await getEthUsdOnDate(dayIso); usd = eth * price; } catch {}
-              const hash = t.hash || "";
-              const from = t.from || "";
-              const to = t.to || "";
-              const key = `${chain}|${wallet.toLowerCase()}|${hash.toLowerCase()}`;
-              if (seen.has(key)) continue;
-              seen.add(key);
-              totalEth += eth;
-              totalUsd += usd || 0;
-              written += 1;
-              if (!dryRun && writer) {
-                await writeLine(writer, [
-                  dateIso, chain, wallet, hash, from, to,
-                  eth.toFixed(6), usd ? (usd / eth).toFixed(2) : "", usd ? usd.toFixed(2) : "",
-                ].join(","));
-              }
-              if (written >= cap) { reached.cap = true; break; }
-            }
-            chunkStartTs = chunkEndTs + 1;
-          }
-        } else {
-          // Single date-bounded range (not chunked)
-          const startBlock = await resolveBlockAtTime(chain, START_TS, "after");
-          const endBlock = await resolveBlockAtTime(chain, END_TS, "before");
-          const internalTxs = await fetchInternalByBlockRange(chain, wallet, startBlock, endBlock, maxPages);
-          const internalInbound = internalTxs.filter((t) => (t?.to || "").toLowerCase() === wallet.toLowerCase());
-          for (const t of internalInbound) {
-            if (reached.cap) break;
-            const tsSec = Number(t.timeStamp || t.timestamp || 0);
-            if (!Number.isFinite(tsSec)) continue;
-            const dateIso = new Date(tsSec * 1000).toISOString();
-            const dayIso = dateIso.slice(0, 10) + "T00:00:00Z";
-            const eth = Number(t.value) / 1e18;
-            if (!Number.isFinite(eth) || eth <= 0) continue;
-            let usd = 0;
-            try { const price = await getEthUsdOnDate(dayIso); usd = eth * price; } catch {}
-            const hash = t.hash || "";
-            const from = t.from || "";
-            const to = t.to || "";
-            const key = `${chain}|${wallet.toLowerCase()}|${hash.toLowerCase()}`;
-            if (seen.has(key)) continue;
-            seen.add(key);
-            totalEth += eth;
-            totalUsd += usd || 0;
-            written += 1;
-            if (!dryRun && writer) {
-              await writeLine(writer, [
-                dateIso, chain, wallet, hash, from, to,
-                eth.toFixed(6), usd ? (usd / eth).toFixed(2) : "", usd ? usd.toFixed(2) : "",
-              ].join(","));
-            }
-            if (written >= cap) { reached.cap = true; break; }
-          }
+      const contract = tokenMode ? (t.contractAddress || "").toLowerCase() : "";
+      const token = tokensFor(chain).find((x) => x.address.toLowerCase() === contract);
+      if (tokenMode && !token) continue;
+      const x = await toInboundTransfer(chain, wallet, t, token);
+      if (!x || seen.has(x.key)) continue;
+      seen.add(x.key);
+      totalAmount = totalAmount.plus(x.amount);
+      if (x.usd) totalUsd = totalUsd.plus(x.usd);
+      written += 1;
+      addToSummary(summary, {
+        period,
+        chain,
+        asset: x.asset,
+        groups: walletInfo(WALLETS, wallet).groups,
+        amount: x.amount,
+        usd: x.usd ? formatUsd(x.usd) : null,
+      });
+      if (!dryRun && writer) {
+        await writer.write(x.row, x.transfer);
+        newKeys.push(x.key);
+      }
+      if (written >= cap) { reached.cap = true; break; }
+    }
+  };
+
+  let failed = 0;
+  const units = Array.from(scoped).flatMap(([chain, wallets]) => wallets.map((wallet) => ({ chain, wallet })));
+  await mapConcurrent(units, concurrency, async ({ chain, wallet }) => {
+    if (reached.cap) return;
+    const unit = `${chain}|${wallet.toLowerCase()}`;
+    if (checkpoint.done.includes(unit)) return;
+    const pos = checkpoint.positions.find((p) => p.chain === chain && p.wallet === wallet) ?? null;
+    try {
+      if (latestMode) {
+        // Latest mode (not chunked); resumes per wallet
+        const rows = await fetchLatest(chain, wallet);
+        await exclusive(() => emitInbound(chain, wallet, rows));
+      } else {
+        // Date-bounded mode, in --chunkDays chunks or as one range
+        const daySeconds = 24 * 60 * 60;
+        let chunkStartTs = pos ? pos.chunk : START_TS;
+        while (chunkStartTs <= END_TS && !reached.cap) {
+          const chunkEndTs = chunkDays > 0 ? Math.min(END_TS, chunkStartTs + (chunkDays * daySeconds) - 1) : END_TS;
+          const startBlock = await resolveBlockAtTime(chain, chunkStartTs, "after");
+          const endBlock = await resolveBlockAtTime(chain, chunkEndTs, "before");
+          const chunkPos = pos && pos.chunk === chunkStartTs ? pos : null;
+          await fetchRange(chain, wallet, chunkStartTs, startBlock, endBlock, chunkPos);
+          chunkStartTs = chunkEndTs + 1;
         }
-      } catch (e: any) {
-        console.error(`[error] ${chain}:${wallet} ->`, e?.response?.data || e?.message || String(e));
       }
+      await exclusive(async () => {
+        checkpoint.done.push(unit);
+        await saveProgress(chain, wallet, null);
+      });
+    } catch (e: any) {
+      failed += 1;
+      console.error(`[error] ${chain}:${wallet} ->`, e?.response?.data || e?.message || String(e));
     }
-  }
+  });
 
   if (dryRun) {
     console.log(`[dryRun] Would write ${written} rows to ./${outFile}`);
+    printThroughput();
+  } else if (writer && failed > 0) {
+    // Keep the checkpoint so a rerun can pick up the failed wallets
+    await writer.close();
+    printThroughput();
+    console.error(`${failed} wallet(s) failed; ${written} rows so far in ./${outFile}. Rerun with --resume to continue.`);
+    process.exit(1);
   } else if (writer) {
-    await writeLine(writer, ["TOTAL", "", "", "", "", "", totalEth.toFixed(6), "", totalUsd.toFixed(2)].join(","));
-    await new Promise<void>((resolve) => writer!.end(resolve));
+    await writer.close();
+    await clearCheckpoint(outFile);
+    // Totals go to the console and a side file, not into the data rows
+    // (an amount total only makes sense when a single asset is in the file: one token symbol, or
+    // native transfers on chains sharing a native symbol, not ETH and POL added together)
+    const natives = Array.from(new Set(Array.from(scoped).filter(([, w]) => w.length > 0)
+      .map(([c]) => chainCfg(c).nativeSymbol.toUpperCase())));
+    const assets = tokenMode ? assetSymbols : natives;
+    const totals = {
+      file: outFile,
+      rows: written,
+      amount: assets.length > 1 ? null : totalAmount.toFixed(),
+      asset: tokenMode || natives.length > 1 ? assets.join(",") : assetSymbols[0] === "NATIVE" ? "native" : assetSymbols[0],
+      usd_value: formatUsd(totalUsd),
+    };
+    await writeFile(`${outBase}_totals.json`, JSON.stringify(totals, null, 2) + "\n", "utf8");
     console.log(`Wrote ${written} data rows to ./${outFile}`);
+    console.log(`Total: ${totals.amount ?? "-"} ${totals.asset} | ${totals.usd_value} USD (./${outBase}_totals.json)`);
+    const sRows = summaryRows(summary);
+    printSummary(sRows);
+    console.log(`Wrote ${sRows.length} summary rows to ./${await writeSummary(outBase, sRows)}`);
+    printThroughput();
   }
 }
 
-main().catch((e) => { console.error(e); process.exit(1); });
-
-
+if (isEntryPoint(import.meta.url)) {
+  main(process.argv.slice(2)).catch((e) => { console.error(e); process.exit(1); });
+}
@@ -0,0 +1,91 @@
+import { parseAbi, zeroAddress, type Address } from "viem";
+
+import { readBalances, readCalls, type BalanceCall } from "./balances.mjs";
+import type { Position, PositionAdapter, PositionContext } from "./positions.mjs";
+
+/**
+ * ======= Aave v3: supplied and borrowed balances =======
+ * The reserve list and each reserve's aToken / debt tokens come from the PoolDataProvider that the
+ * chain's PoolAddressesProvider pointed to at the block. aToken and debt token balances already
+ * include accrued interest and are in the underlying token's units.
+ */
+const PROVIDER_ABI = parseAbi(["function getPoolDataProvider() view returns (address)"]);
+
+const DATA_PROVIDER_ABI = parseAbi([
+  "function getAllReservesTokens() view returns ((string symbol, address tokenAddress)[])",
+  "function getReserveTokensAddresses(address asset) view returns (address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress)",
+  "function getReserveConfigurationData(address asset) view returns (uint256 decimals, uint256 ltv, uint256 liquidationThreshold, uint256 liquidationBonus, uint256 reserveFactor, bool usageAsCollateralEnabled, bool borrowingEnabled, bool stableBorrowRateEnabled, bool isActive, bool isFrozen)",
+]);
+
+type Leg = { symbol: string; underlying: Address; token: Address; decimals: number; debt: boolean };
+
+// One leg per position token: the aToken (supplied), then the variable and stable debt tokens
+async function reserveLegs({ client, chain, blockNumber, chunkSize }: Omit<PositionContext, "wallets">): Promise<Leg[]> {
+  const dataProvider = await client.readContract({
+    address: chain.positions.aave!,
+    abi: PROVIDER_ABI,
+    functionName: "getPoolDataProvider",
+    blockNumber,
+  });
+  const reserves = await client.readContract({
+    address: dataProvider,
+    abi: DATA_PROVIDER_ABI,
+    functionName: "getAllReservesTokens",
+    blockNumber,
+  });
+  const details = await readCalls(
+    client,
+    reserves.flatMap((r) => [
+      { address: dataProvider, abi: DATA_PROVIDER_ABI, functionName: "getReserveTokensAddresses", args: [r.tokenAddress] },
+      { address: dataProvider, abi: DATA_PROVIDER_ABI, functionName: "getReserveConfigurationData", args: [r.tokenAddress] },
+    ]),
+    { blockNumber, multicall3: chain.multicall3, chunkSize },
+  );
+
+  const legs: Leg[] = [];
+  for (const [i, r] of reserves.entries()) {
+    const tokens = details[2 * i] as readonly [Address, Address, Address] | null;
+    const config = details[2 * i + 1] as readonly [bigint, ...unknown[]] | null;
+    if (!tokens || !config) continue;
+    const [aToken, stableDebt, variableDebt] = tokens;
+    const base = { symbol: r.symbol, underlying: r.tokenAddress, decimals: Number(config[0]) };
+    legs.push({ ...base, token: aToken, debt: false });
+    for (const debt of [variableDebt, stableDebt]) {
+      if (debt !== zeroAddress) legs.push({ ...base, token: debt, debt: true });
+    }
+  }
+  return legs;
+}
+
+export const aaveV3Adapter: PositionAdapter = {
+  name: "aave-v3",
+  enabled: (chain) => chain.positions.aave != null,
+  async tokens(ctx) {
+    return (await reserveLegs(ctx)).map((l) => l.token);
+  },
+  async read({ client, chain, wallets, blockNumber, chunkSize }) {
+    const legs = await reserveLegs({ client, chain, blockNumber, chunkSize });
+
+    const calls: BalanceCall[] = wallets.flatMap((wallet) => legs.map((l) => ({ wallet, token: l.token })));
+    const balances = await readBalances(client, calls, {
+      blockNumber,
+      multicall3: chain.multicall3,
+      chunkSize,
+      label: chain.name,
+    });
+    return calls.map((c, i): Position => {
+      const leg = legs[i % legs.length]!;
+      return {
+        wallet: c.wallet,
+        assetType: "lending",
+        protocol: "aave-v3",
+        positionToken: leg.token,
+        symbol: leg.symbol,
+        tokenAddress: leg.underlying,
+        decimals: leg.decimals,
+        raw: leg.debt ? -balances[i]! : balances[i]!,
+        flags: leg.debt ? ["debt"] : [],
+      };
+    });
+  },
+};
@@ -0,0 +1,45 @@
+import { Decimal } from "decimal.js";
+import { formatUnits } from "viem";
+
+/**
+ * ======= Exact amounts =======
+ * On-chain amounts stay bigint base units (wei, token units) until they're written, then become
+ * exact decimal strings. USD math runs on decimals, never floats: a row's value is rounded half up
+ * to the cent and totals add the rounded row values, so a total always equals the sum of its column.
+ */
+export const Dec = Decimal.clone({ precision: 100, rounding: Decimal.ROUND_HALF_UP });
+export type Dec = Decimal;
+
+export const ZERO = new Dec(0);
+
+/** Integer from an API field (decimal or 0x hex string); anything unparsable is 0. */
+export function toRaw(v: unknown): bigint {
+  try {
+    return BigInt(String(v ?? "0") || "0");
+  } catch {
+    return 0n;
+  }
+}
+
+/** Exact decimal string for base units, e.g. (1500000000000000000n, 18) -> "1.5". */
+export const formatAmount = (raw: bigint, decimals: number): string => formatUnits(raw, decimals);
+
+/** Decimal from a CSV cell or number; null when empty or not a number. */
+export function toDec(v: string | number | null | undefined): Dec | null {
+  if (v == null || v === "") return null;
+  try {
+    const d = new Dec(v);
+    return d.isFinite() ? d : null;
+  } catch {
+    return null;
+  }
+}
+
+/** USD value of an amount at a price, rounded to the cent. */
+export const usdValue = (amount: string | Dec, price: number | Dec): Dec =>
+  new Dec(amount).times(price).toDecimalPlaces(2);
+
+export const formatUsd = (usd: Dec): string => usd.toFixed(2);
+
+/** A price with `places` decimals (the unrounded price is what values are computed from). */
+export const formatPrice = (price: number | Dec, places: number): string => new Dec(price).toFixed(places);
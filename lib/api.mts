@@ -0,0 +1,180 @@
+import { createServer, type Server } from "node:http";
+
+import { parseDateArg, toIsoSeconds } from "./dates.mjs";
+import { HttpError, UpstreamError } from "./transport.mjs";
+
+/**
+ * ======= Local HTTP API (`walletbalance serve`) =======
+ * GET /balances answers with the rows a snapshot writes and GET /transfers with inbound transfers
+ * in the form watch mode posts, as JSON pages: `{ data, pagination: { offset, limit, total,
+ * next_offset } }`. Errors are `{ error: { code, message } }` with a 4xx for bad requests and 502
+ * when an upstream API failed.
+ * A query's full result is kept for a short while so paging through it doesn't refetch.
+ */
+export type BalanceQuery = {
+  date: string; // ISO, to the second
+  wallet: string | null; // address or name
+  chain: string | null; // name or alias
+  asset: string | null; // symbol
+};
+
+export type TransferQuery = {
+  from: string; // ISO, to the second
+  to: string;
+  wallet: string | null;
+  chain: string | null;
+  asset: string[]; // symbols; empty = internal native transfers
+};
+
+export type ApiItem = Record<string, unknown>;
+
+/** What the routes call into; `serve` wires these to the snapshot and inbound logic. */
+export type ApiBackend = {
+  balances(q: BalanceQuery): Promise<ApiItem[]>; // snapshot rows
+  transfers(q: TransferQuery): Promise<ApiItem[]>; // inbound transfers in their webhook form
+};
+
+export type ApiResponse = { status: number; body: unknown };
+
+/** A request the API refuses, with the HTTP status and a stable code for clients. */
+export class ApiError extends Error {
+  status: number;
+  code: string;
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+
+const ROUTES = ["/balances", "/transfers"];
+const QUERY_PARAMS: Record<string, string[]> = {
+  "/balances": ["date", "wallet", "chain", "asset", "limit", "offset"],
+  "/transfers": ["from", "to", "wallet", "chain", "asset", "limit", "offset"],
+};
+
+// A bare date is the end of that day for `date` and `to` (as on the command line) and its start for `from`
+function dateParam(params: URLSearchParams, name: string, startOfDay = false): string | null {
+  const raw = params.get(name)?.trim();
+  if (!raw) return null;
+  const iso = startOfDay && /^\d{4}-\d{2}-\d{2}$/.test(raw) ? parseDateArg(`${raw}T00:00:00Z`) : parseDateArg(raw);
+  if (!iso) throw new ApiError(400, "invalid_parameter", `Invalid ${name}=${raw} (expected YYYY-MM-DD or an ISO timestamp)`);
+  return iso;
+}
+
+function intParam(params: URLSearchParams, name: string, fallback: number, min: number, max: number): number {
+  const raw = params.get(name);
+  if (raw == null || raw === "") return fallback;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < min || n > max) {
+    throw new ApiError(400, "invalid_parameter", `Invalid ${name}=${raw} (expected an integer from ${min} to ${max})`);
+  }
+  return n;
+}
+
+const strParam = (params: URLSearchParams, name: string) => params.get(name)?.trim() || null;
+
+function parseQuery(path: string, params: URLSearchParams): { key: string; run: (b: ApiBackend) => Promise<ApiItem[]> } {
+  const unknown = Array.from(params.keys()).filter((k) => !QUERY_PARAMS[path]!.includes(k));
+  if (unknown.length > 0) throw new ApiError(400, "invalid_parameter", `Unknown parameter ${unknown.join(", ")}`);
+  if (path === "/balances") {
+    const q: BalanceQuery = {
+      date: dateParam(params, "date") ?? toIsoSeconds(Date.now()),
+      wallet: strParam(params, "wallet"),
+      chain: strParam(params, "chain"),
+      asset: strParam(params, "asset"),
+    };
+    return { key: `${path}|${JSON.stringify(q)}`, run: (b) => b.balances(q) };
+  }
+  const from = dateParam(params, "from", true);
+  if (!from) throw new ApiError(400, "missing_parameter", "from is required");
+  const to = dateParam(params, "to") ?? toIsoSeconds(Date.now());
+  if (Date.parse(from) > Date.parse(to)) throw new ApiError(400, "invalid_parameter", `from (${from}) is after to (${to})`);
+  const q: TransferQuery = {
+    from,
+    to,
+    wallet: strParam(params, "wallet"),
+    chain: strParam(params, "chain"),
+    asset: (params.get("asset") ?? "").split(",").map((s) => s.trim().toUpperCase()).filter(Boolean),
+  };
+  return { key: `${path}|${JSON.stringify(q)}`, run: (b) => b.transfers(q) };
+}
+
+function errorResponse(e: unknown): ApiResponse {
+  if (e instanceof ApiError) return { status: e.status, body: { error: { code: e.code, message: e.message } } };
+  const message = (e as any)?.shortMessage || (e as any)?.message || String(e);
+  // An explorer, RPC or price API that failed or refused us; the query itself may be fine
+  if (e instanceof HttpError || e instanceof UpstreamError || (e as any)?.name === "HttpRequestError") {
+    return { status: 502, body: { error: { code: "upstream_error", message } } };
+  }
+  return { status: 500, body: { error: { code: "internal_error", message } } };
+}
+
+/**
+ * Route one request. Results are kept for `ttlMs` per query (minus limit/offset); concurrent
+ * requests for the same query share one fetch.
+ */
+export function createApiHandler(
+  backend: ApiBackend,
+  opts: { ttlMs?: number; maxEntries?: number } = {},
+): (method: string, url: string) => Promise<ApiResponse> {
+  const ttlMs = opts.ttlMs ?? 5 * 60 * 1000;
+  const maxEntries = opts.maxEntries ?? 100;
+  const results = new Map<string, { at: number; rows: Promise<ApiItem[]> }>();
+
+  const cached = (key: string, run: () => Promise<ApiItem[]>): Promise<ApiItem[]> => {
+    const hit = results.get(key);
+    if (hit && Date.now() - hit.at < ttlMs) return hit.rows;
+    const rows = run();
+    results.delete(key);
+    results.set(key, { at: Date.now(), rows });
+    if (results.size > maxEntries) results.delete(results.keys().next().value!);
+    // Failures aren't kept
+    rows.catch(() => results.get(key)?.rows === rows && results.delete(key));
+    return rows;
+  };
+
+  return async (method, url) => {
+    try {
+      const { pathname, searchParams } = new URL(url, "http://localhost");
+      const path = pathname.replace(/\/+$/, "") || "/";
+      if (path === "/health") return { status: 200, body: { ok: true } };
+      if (!ROUTES.includes(path)) throw new ApiError(404, "not_found", `No route ${pathname}; try ${ROUTES.join(" or ")}`);
+      if (method !== "GET") throw new ApiError(405, "method_not_allowed", `${method} ${path} is not supported; use GET`);
+      const limit = intParam(searchParams, "limit", DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE);
+      const offset = intParam(searchParams, "offset", 0, 0, Number.MAX_SAFE_INTEGER);
+      const query = parseQuery(path, searchParams);
+      const rows = await cached(query.key, () => query.run(backend));
+      const data = rows.slice(offset, offset + limit);
+      const next = offset + limit < rows.length ? offset + limit : null;
+      return { status: 200, body: { data, pagination: { offset, limit, total: rows.length, next_offset: next } } };
+    } catch (e) {
+      return errorResponse(e);
+    }
+  };
+}
+
+/** Serve `backend` over HTTP on host:port; resolves once listening. */
+export function startApiServer(backend: ApiBackend, opts: { host: string; port: number; ttlMs?: number }): Promise<Server> {
+  const handle = createApiHandler(backend, opts.ttlMs != null ? { ttlMs: opts.ttlMs } : {});
+  const server = createServer((req, res) => {
+    const started = Date.now();
+    handle(req.method ?? "GET", req.url ?? "/").then(({ status, body }) => {
+      const text = JSON.stringify(body);
+      res.writeHead(status, {
+        "content-type": "application/json; charset=utf-8",
+        "content-length": Buffer.byteLength(text),
+        ...(status === 405 && { allow: "GET" }),
+      });
+      res.end(text);
+      console.log(`${req.method} ${req.url} -> ${status} (${Date.now() - started}ms)`);
+    });
+  });
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(opts.port, opts.host, () => resolve(server));
+  });
+}
@@ -0,0 +1,277 @@
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+
+import { parseDateArg } from "./dates.mjs";
+import { OUTPUT_FORMATS } from "./output.mjs";
+import { PRICE_SOURCES } from "./prices.mjs";
+
+/**
+ * ======= Command-line options =======
+ * Each command declares its options once; the same spec drives parsing, validation, env-var
+ * fallbacks and the generated `--help`. Options take `--name value` or `--name=value` (values may
+ * contain `=`); booleans are bare switches (`--resume`) and also accept `=1|0|true|false`.
+ * Unknown options and malformed values are errors rather than silently falling back to defaults.
+ */
+export type OptionType = "string" | "int" | "number" | "boolean" | "date" | "enum" | "list";
+
+export type OptionSpec = {
+  name: string;
+  type: OptionType;
+  description: string;
+  env?: string;
+  default?: string | number | boolean;
+  // enum choices; for lists, the allowed entries
+  values?: readonly string[];
+  // lower bound for int/number
+  min?: number;
+  // value placeholder in --help (defaults to the type, or the enum choices)
+  placeholder?: string;
+};
+
+export type CommandSpec = {
+  name: string;
+  summary: string;
+  // positional arguments for the usage line, e.g. "clear [namespace]"; commands without them reject positionals
+  positionals?: string;
+  options: OptionSpec[];
+  // variables read directly rather than through an option (e.g. WALLETS)
+  env?: { name: string; description: string }[];
+  examples?: string[];
+};
+
+export class ArgError extends Error {}
+
+export type Args = {
+  /** Option value as given (after env/default fallback), "" when unset. */
+  str(name: string): string;
+  num(name: string): number;
+  flag(name: string): boolean;
+  /** Comma-separated value split into trimmed, non-empty entries. */
+  list(name: string): string[];
+  /** True when the option was given on the command line or through its env var. */
+  has(name: string): boolean;
+  positionals: string[];
+  help: boolean;
+};
+
+const TRUE = ["1", "true", "yes"];
+const FALSE = ["0", "false", "no", ""];
+
+/** Check one value against its option; returns the normalized value or throws with `origin` in the message. */
+function checkValue(opt: OptionSpec, raw: string, origin: string): string {
+  const fail = (expected: string) => new ArgError(`Invalid ${origin}=${raw} (expected ${expected})`);
+  switch (opt.type) {
+    case "int":
+    case "number": {
+      const n = Number(raw);
+      if (raw.trim() === "" || !Number.isFinite(n) || (opt.type === "int" && !Number.isInteger(n))) {
+        throw fail(opt.type === "int" ? "an integer" : "a number");
+      }
+      if (opt.min != null && n < opt.min) throw fail(`a value of at least ${opt.min}`);
+      return raw.trim();
+    }
+    case "boolean": {
+      const v = raw.trim().toLowerCase();
+      if (TRUE.includes(v)) return "1";
+      if (FALSE.includes(v)) return "";
+      throw fail("1|0|true|false");
+    }
+    case "date":
+      if (!parseDateArg(raw)) throw fail("YYYY-MM-DD or an ISO timestamp");
+      return raw.trim();
+    case "enum": {
+      const v = raw.trim().toLowerCase();
+      if (!opt.values?.includes(v)) throw fail(opt.values?.join("|") ?? "");
+      return v;
+    }
+    case "list":
+      if (opt.values) {
+        const bad = splitList(raw).filter((v) => !opt.values!.includes(v.toLowerCase()));
+        if (bad.length > 0) throw new ArgError(`Invalid ${origin}: ${bad.join(",")} (expected a comma-separated list of ${opt.values.join("|")})`);
+      }
+      return raw;
+    default:
+      return raw;
+  }
+}
+
+const splitList = (v: string) => v.split(",").map((s) => s.trim()).filter(Boolean);
+
+/** Parse argv (without node and the script) against a command spec. Throws ArgError on bad input. */
+export function parseArgs(spec: CommandSpec, argv: string[], env: NodeJS.ProcessEnv = process.env): Args {
+  const byName = new Map(spec.options.map((o) => [o.name, o]));
+  const given = new Map<string, string>();
+  const positionals: string[] = [];
+  let help = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === "--") {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (arg === "-h" || arg === "--help") {
+      help = true;
+      continue;
+    }
+    if (!arg.startsWith("--")) {
+      if (arg.startsWith("-") && arg.length > 1) throw new ArgError(`Unknown option ${arg}`);
+      positionals.push(arg);
+      continue;
+    }
+    // Split on the first "=" only, so values like base64 keys or URLs with query strings survive
+    const eq = arg.indexOf("=");
+    const name = arg.slice(2, eq === -1 ? undefined : eq);
+    const opt = byName.get(name);
+    if (!opt) throw new ArgError(`Unknown option --${name} for ${spec.name}`);
+    let value: string;
+    if (eq !== -1) {
+      value = arg.slice(eq + 1);
+    } else if (opt.type === "boolean") {
+      value = "1";
+    } else {
+      const next = argv[i + 1];
+      if (next === undefined || next.startsWith("--")) throw new ArgError(`Missing value for --${name}`);
+      value = next;
+      i++;
+    }
+    given.set(name, checkValue(opt, value, `--${name}`));
+  }
+
+  if (!spec.positionals && positionals.length > 0) {
+    throw new ArgError(`Unexpected argument ${positionals[0]} for ${spec.name}`);
+  }
+
+  // Env vars fill in options not given on the command line; they're validated the same way
+  for (const opt of spec.options) {
+    if (given.has(opt.name) || !opt.env) continue;
+    const v = env[opt.env];
+    if (v === undefined || v === "") continue;
+    given.set(opt.name, checkValue(opt, v, opt.env));
+  }
+
+  const lookup = (name: string): OptionSpec => {
+    const opt = byName.get(name);
+    if (!opt) throw new Error(`Option --${name} is not declared for ${spec.name}`);
+    return opt;
+  };
+  const raw = (name: string): string => {
+    const opt = lookup(name);
+    if (given.has(name)) return given.get(name)!;
+    if (opt.default === undefined) return "";
+    return opt.type === "boolean" ? (opt.default ? "1" : "") : String(opt.default);
+  };
+
+  return {
+    str: raw,
+    num: (name) => Number(raw(name) || NaN),
+    flag: (name) => raw(name) === "1",
+    list: (name) => splitList(raw(name)),
+    has: (name) => (lookup(name), given.has(name)),
+    positionals,
+    help,
+  };
+}
+
+/** Render `--help` for a command from its spec. */
+export function formatHelp(spec: CommandSpec): string {
+  const lines = [`Usage: walletbalance ${spec.name} ${spec.positionals ? `${spec.positionals} ` : ""}[options]`, "", spec.summary, "", "Options:"];
+  const left = (o: OptionSpec) => {
+    if (o.type === "boolean") return `--${o.name}`;
+    const ph = o.placeholder ?? (o.type === "enum" ? o.values!.join("|") : o.type === "list" ? "a,b" : o.type);
+    return `--${o.name} <${ph}>`;
+  };
+  const rows = [
+    ...spec.options.map((o) => {
+      const notes = [
+        o.default !== undefined && o.default !== false && o.default !== "" ? `default: ${o.default}` : "",
+        o.env ? `env: ${o.env}` : "",
+      ].filter(Boolean);
+      return [left(o), notes.length > 0 ? `${o.description} (${notes.join("; ")})` : o.description] as const;
+    }),
+    ["-h, --help", "Show this help"] as const,
+  ];
+  const width = Math.min(32, Math.max(...rows.map(([l]) => l.length)));
+  for (const [l, r] of rows) {
+    lines.push(l.length > width ? `  ${l}\n  ${" ".repeat(width)}  ${r}` : `  ${l.padEnd(width)}  ${r}`);
+  }
+  if (spec.env && spec.env.length > 0) {
+    lines.push("", "Environment:");
+    const envWidth = Math.max(...spec.env.map((e) => e.name.length));
+    for (const e of spec.env) lines.push(`  ${e.name.padEnd(envWidth)}  ${e.description}`);
+  }
+  if (spec.examples && spec.examples.length > 0) {
+    lines.push("", "Examples:", ...spec.examples.map((e) => `  ${e}`));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Parse a command's argv, printing help and exiting 0 on --help, or the error and exiting 1
+ * on bad input. Entry scripts call this first thing in main().
+ */
+export function readArgs(spec: CommandSpec, argv: string[]): Args {
+  try {
+    const args = parseArgs(spec, argv);
+    if (args.help) {
+      console.log(formatHelp(spec));
+      process.exit(0);
+    }
+    return args;
+  } catch (e: any) {
+    if (!(e instanceof ArgError)) throw e;
+    console.error(e.message);
+    console.error(`Run \`walletbalance ${spec.name} --help\` for the available options.`);
+    process.exit(1);
+  }
+}
+
+/** True when the module at `url` is the script node was started with (not imported by the CLI). */
+export function isEntryPoint(url: string): boolean {
+  return !!process.argv[1] && pathToFileURL(resolve(process.argv[1])).href === url;
+}
+
+// ======= Options shared by the commands that hit RPCs and explorers =======
+
+export const CONFIG_OPTION: OptionSpec = {
+  name: "config",
+  type: "string",
+  env: "CONFIG",
+  placeholder: "path",
+  description: "Config file with chains, tokens and wallets, as YAML or JSON",
+};
+
+// Requests stay within each provider's `limits:` however many units run at once
+export const CONCURRENCY_OPTION: OptionSpec = {
+  name: "concurrency",
+  type: "int",
+  env: "CONCURRENCY",
+  min: 1,
+  default: 1,
+  description: "Chains or wallets processed at once",
+};
+
+export const NETWORK_OPTIONS: OptionSpec[] = [
+  CONFIG_OPTION,
+  {
+    name: "prices",
+    type: "list",
+    env: "PRICE_SOURCES",
+    values: PRICE_SOURCES,
+    placeholder: PRICE_SOURCES.join(","),
+    description: "Price providers in priority order",
+  },
+  { name: "priceFile", type: "string", placeholder: "path", description: "Price file: a JSON array or a CSV of date,asset,price" },
+  {
+    name: "format",
+    type: "enum",
+    env: "OUTPUT_FORMAT",
+    values: OUTPUT_FORMATS,
+    default: "csv",
+    description: "Output format",
+  },
+  { name: "cacheDir", type: "string", env: "CACHE_DIR", placeholder: "path", default: ".cache", description: "Cache directory" },
+  { name: "no-cache", type: "boolean", env: "NO_CACHE", description: "Bypass the cache for this run" },
+  { name: "record", type: "string", placeholder: "dir", description: "Record every external response into dir" },
+  { name: "replay", type: "string", placeholder: "dir", description: "Serve external responses from recordings in dir only" },
+];
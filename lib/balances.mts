@@ -0,0 +1,181 @@
+import { parseAbi, type Abi, type Address, type createPublicClient } from "viem";
+
+/** ======= Balance readers (Multicall3 batches with per-call fallback) ======= */
+type Client = ReturnType<typeof createPublicClient>;
+
+// minimal ERC20 ABI
+export const ERC20_ABI = parseAbi([
+  "function balanceOf(address) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+]);
+
+const MULTICALL3_ABI = parseAbi([
+  "function getEthBalance(address) view returns (uint256)",
+]);
+
+export type BalanceCall = {
+  wallet: Address;
+  token: Address | null; // null = native balance
+};
+
+export type BalanceReadOpts = {
+  blockNumber: bigint;
+  multicall3: Address | null; // null = always read one call at a time
+  chunkSize: number; // calls per aggregate3
+  label?: string; // for warnings, e.g. the chain name
+};
+
+async function readOne(client: Client, call: BalanceCall, blockNumber: bigint): Promise<bigint> {
+  if (!call.token) return client.getBalance({ address: call.wallet, blockNumber });
+  return (await client.readContract({
+    address: call.token,
+    abi: ERC20_ABI,
+    functionName: "balanceOf",
+    args: [call.wallet],
+    blockNumber,
+  })) as bigint;
+}
+
+/**
+ * Read native and ERC-20 balances at one block, in input order. With Multicall3 the calls go
+ * out `chunkSize` at a time; a chunk whose aggregate fails (e.g. Multicall3 not yet deployed
+ * at that block) and any individual failed call are retried as plain eth_call/eth_getBalance.
+ */
+export async function readBalances(
+  client: Client,
+  calls: BalanceCall[],
+  opts: BalanceReadOpts,
+): Promise<bigint[]> {
+  const { blockNumber, multicall3 } = opts;
+  const out: bigint[] = [];
+  if (!multicall3) {
+    for (const call of calls) out.push(await readOne(client, call, blockNumber));
+    return out;
+  }
+
+  const chunkSize = Math.max(1, opts.chunkSize);
+  for (let i = 0; i < calls.length; i += chunkSize) {
+    const chunk = calls.slice(i, i + chunkSize);
+    let results: { status: "success" | "failure"; result?: unknown; error?: any }[];
+    try {
+      results = await client.multicall({
+        contracts: chunk.map((c) =>
+          c.token
+            ? { address: c.token, abi: ERC20_ABI, functionName: "balanceOf", args: [c.wallet] } as const
+            : { address: multicall3, abi: MULTICALL3_ABI, functionName: "getEthBalance", args: [c.wallet] } as const,
+        ),
+        blockNumber,
+        multicallAddress: multicall3,
+        batchSize: 0, // we chunk by call count ourselves
+        allowFailure: true,
+      });
+    } catch (e: any) {
+      results = chunk.map(() => ({ status: "failure" as const, error: e }));
+    }
+    // viem reports a failed aggregate as every call failing
+    if (results.every((r) => r.status === "failure")) {
+      const e = results[0]?.error;
+      console.warn(
+        `[warn] multicall failed${opts.label ? ` on ${opts.label}` : ""} at block ${blockNumber} ` +
+          `(${e?.shortMessage || e?.message || String(e)}); falling back to individual calls`,
+      );
+    }
+    for (const [j, call] of chunk.entries()) {
+      const r = results[j];
+      out.push(r?.status === "success" ? (r.result as bigint) : await readOne(client, call, blockNumber));
+    }
+  }
+  return out;
+}
+
+export type TokenMetadata = { symbol: string | null; decimals: number | null };
+
+/**
+ * Read symbol()/decimals() for token contracts at one block. Fields that revert or don't
+ * decode (e.g. bytes32 symbols) come back null so callers can fall back to other sources.
+ */
+export async function readTokenMetadata(
+  client: Client,
+  tokens: Address[],
+  opts: { blockNumber: bigint; multicall3: Address | null },
+): Promise<Map<string, TokenMetadata>> {
+  const out = new Map<string, TokenMetadata>();
+  if (tokens.length === 0) return out;
+  const contracts = tokens.flatMap((address) => [
+    { address, abi: ERC20_ABI, functionName: "symbol" } as const,
+    { address, abi: ERC20_ABI, functionName: "decimals" } as const,
+  ]);
+
+  let results: { status: "success" | "failure"; result?: unknown }[];
+  if (opts.multicall3) {
+    results = await client
+      .multicall({ contracts, blockNumber: opts.blockNumber, multicallAddress: opts.multicall3, allowFailure: true })
+      .catch(() => contracts.map(() => ({ status: "failure" as const })));
+  } else {
+    results = [];
+    for (const c of contracts) {
+      results.push(
+        await client
+          .readContract({ ...c, blockNumber: opts.blockNumber })
+          .then((result) => ({ status: "success" as const, result }))
+          .catch(() => ({ status: "failure" as const })),
+      );
+    }
+  }
+
+  for (const [i, address] of tokens.entries()) {
+    const sym = results[2 * i];
+    const dec = results[2 * i + 1];
+    out.set(address.toLowerCase(), {
+      symbol: sym?.status === "success" && typeof sym.result === "string" ? sym.result : null,
+      decimals: dec?.status === "success" ? Number(dec.result) : null,
+    });
+  }
+  return out;
+}
+
+export type ViewCall = {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+};
+
+/**
+ * Read arbitrary view calls at one block, in input order: through Multicall3 `chunkSize` at a
+ * time when the chain has it, else one eth_call each. Calls that revert come back null.
+ */
+export async function readCalls(
+  client: Client,
+  calls: ViewCall[],
+  opts: { blockNumber: bigint; multicall3: Address | null; chunkSize: number },
+): Promise<unknown[]> {
+  const out: unknown[] = [];
+  const one = (c: ViewCall) =>
+    client.readContract({ ...c, blockNumber: opts.blockNumber } as any).catch(() => null);
+  if (!opts.multicall3) {
+    for (const c of calls) out.push(await one(c));
+    return out;
+  }
+  const chunkSize = Math.max(1, opts.chunkSize);
+  for (let i = 0; i < calls.length; i += chunkSize) {
+    const chunk = calls.slice(i, i + chunkSize);
+    const results = await client
+      .multicall({
+        contracts: chunk as any,
+        blockNumber: opts.blockNumber,
+        multicallAddress: opts.multicall3,
+        batchSize: 0,
+        allowFailure: true,
+      })
+      .catch(() => null);
+    if (!results) {
+      // Aggregate failed as a whole (e.g. before Multicall3 existed): one call at a time
+      for (const c of chunk) out.push(await one(c));
+      continue;
+    }
+    for (const r of results) out.push(r.status === "success" ? r.result : null);
+  }
+  return out;
+}
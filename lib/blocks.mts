@@ -0,0 +1,60 @@
+import type { createPublicClient } from "viem";
+
+import { cacheGet, cacheSet, isFinalizedTs } from "./cache.mjs";
+
+/** ======= Block lookups by timestamp ======= */
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** simple retry for transient RPC hiccups */
+async function withRetry<T>(fn: () => Promise<T>, tries = 3, delayMs = 100) {
+  let lastErr: unknown;
+  for (let i = 0; i < tries; i++) {
+    try {
+      return await fn();
+    } catch (e) {
+      lastErr = e;
+      if (i < tries - 1) await sleep(delayMs * (i + 1));
+    }
+  }
+  throw lastErr;
+}
+
+/**
+ * Binary-search the block whose timestamp is <= targetTs and next block is > targetTs.
+ * Works on L2s as long as RPC supports getBlock. Results for finalized times are cached on disk.
+ */
+export async function resolveBlockAtTime(
+  client: ReturnType<typeof createPublicClient>,
+  chainId: number,
+  targetTs: number,
+): Promise<bigint> {
+  const cacheKey = `${chainId}|${targetTs}|atOrBefore`;
+  const cached = await cacheGet<string>("blocks", cacheKey);
+  if (cached !== undefined) return BigInt(cached);
+
+  const latest = await client.getBlockNumber();
+  // Quick exit: check latest timestamp
+  const latestBlock = await withRetry(() =>
+    client.getBlock({ blockNumber: latest }),
+  );
+  if (Number(latestBlock.timestamp) <= targetTs) return latest;
+
+  // low=0 (or 1), high=latest
+  let low = 0n;
+  let high = latest;
+
+  while (low < high) {
+    const mid = (low + high + 1n) >> 1n; // upper mid to avoid infinite loop
+    const b = await withRetry(() => client.getBlock({ blockNumber: mid }));
+    const ts = Number(b.timestamp);
+    if (ts <= targetTs) {
+      low = mid; // mid is valid or too early
+    } else {
+      high = mid - 1n; // mid too new
+    }
+    // be a tiny bit gentle to avoid 429s on free RPCs
+    if ((mid & 7n) === 0n) await sleep(5);
+  }
+  if (isFinalizedTs(targetTs)) await cacheSet("blocks", cacheKey, low.toString());
+  return low;
+}
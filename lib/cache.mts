@@ -0,0 +1,71 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile, readdir } from "node:fs/promises";
+import { join } from "node:path";
+
+/**
+ * ======= Persistent on-disk cache =======
+ * Only immutable data goes in: historical prices, timestamp→block resolutions in the past,
+ * and explorer pages for finalized block ranges. One JSON file per key under
+ * `<dir>/<namespace>/`.
+ */
+export type CacheNamespace = "prices" | "blocks" | "explorer";
+
+export const CACHE_NAMESPACES: CacheNamespace[] = ["prices", "blocks", "explorer"];
+
+// Data older than this is treated as final (no reorgs, explorer indexes caught up)
+export const FINALIZED_AGE_SECONDS = 24 * 60 * 60;
+
+let cacheDir = process.env.CACHE_DIR || ".cache";
+let enabled = true;
+
+/** Apply --no-cache / --cacheDir (call once at startup). */
+export function configureCache(opts: { enabled?: boolean; dir?: string }): void {
+  if (opts.enabled != null) enabled = opts.enabled;
+  if (opts.dir) cacheDir = opts.dir;
+}
+
+export function getCacheDir(): string {
+  return cacheDir;
+}
+
+/** True when `ts` (unix seconds) is old enough that data up to it won't change. */
+export function isFinalizedTs(ts: number): boolean {
+  return ts < Math.floor(Date.now() / 1000) - FINALIZED_AGE_SECONDS;
+}
+
+function keyPath(ns: CacheNamespace, key: string): string {
+  const hash = createHash("sha256").update(key).digest("hex");
+  return join(cacheDir, ns, `${hash}.json`);
+}
+
+export async function cacheGet<T>(ns: CacheNamespace, key: string): Promise<T | undefined> {
+  if (!enabled) return undefined;
+  try {
+    const entry = JSON.parse(await readFile(keyPath(ns, key), "utf8"));
+    return entry?.key === key ? (entry.value as T) : undefined;
+  } catch {
+    return undefined; // missing or unreadable entries are just misses
+  }
+}
+
+export async function cacheSet(ns: CacheNamespace, key: string, value: unknown): Promise<void> {
+  if (!enabled) return;
+  const file = keyPath(ns, key);
+  try {
+    await mkdir(join(cacheDir, ns), { recursive: true });
+    await writeFile(file, JSON.stringify({ key, value }), "utf8");
+  } catch (e: any) {
+    console.warn(`[warn] cache write failed (${file}): ${e?.message || String(e)}`);
+  }
+}
+
+/** Delete one namespace, or the whole cache directory. Returns the number of entries removed. */
+export async function cacheClear(ns?: CacheNamespace): Promise<number> {
+  let removed = 0;
+  for (const n of ns ? [ns] : CACHE_NAMESPACES) {
+    const dir = join(cacheDir, n);
+    removed += (await readdir(dir).catch(() => [] as string[])).length;
+    await rm(dir, { recursive: true, force: true });
+  }
+  return removed;
+}
@@ -0,0 +1,105 @@
+/** ======= Chain registry: known EVM chains and their defaults ======= */
+
+// Multicall3 is deployed at the same address on nearly every EVM chain
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+export type ChainInfo = {
+  name: string; // canonical name used in outputs and config keys
+  aliases: string[]; // accepted as WALLETS prefixes / --chain values
+  chainId: number;
+  nativeSymbol: string;
+  nativeDecimals: number;
+  nativeCoingeckoId: string; // "" when the native asset has no price feed
+  explorerChainId: number | null; // Etherscan v2 `chainid`; null when the chain has no explorer coverage
+  defaultRpc: string; // keyless public endpoint
+  rpcEnv: string; // env var holding a provider URL for archive reads
+  multicall3: string | null; // null when the chain has no Multicall3 deployment
+  aaveV3Provider: string | null; // Aave v3 PoolAddressesProvider; null when Aave v3 isn't deployed
+};
+
+export const KNOWN_CHAINS: ChainInfo[] = [
+  {
+    name: "ethereum",
+    aliases: ["mainnet", "eth"],
+    chainId: 1,
+    nativeSymbol: "ETH",
+    nativeDecimals: 18,
+    nativeCoingeckoId: "ethereum",
+    explorerChainId: 1,
+    defaultRpc: "https://ethereum-rpc.publicnode.com",
+    rpcEnv: "RPC_ETHEREUM",
+    multicall3: MULTICALL3_ADDRESS,
+    aaveV3Provider: "0x2f39d218133AFaB8F2B819B1066c7E434Ad94E9e",
+  },
+  {
+    name: "base",
+    aliases: [],
+    chainId: 8453,
+    nativeSymbol: "ETH",
+    nativeDecimals: 18,
+    nativeCoingeckoId: "ethereum",
+    explorerChainId: 8453,
+    defaultRpc: "https://mainnet.base.org",
+    rpcEnv: "RPC_BASE",
+    multicall3: MULTICALL3_ADDRESS,
+    aaveV3Provider: "0xe20fCBdBfFC4Dd138cE8b2E6FBb6CB49777ad64D",
+  },
+  {
+    name: "optimism",
+    aliases: ["op"],
+    chainId: 10,
+    nativeSymbol: "ETH",
+    nativeDecimals: 18,
+    nativeCoingeckoId: "ethereum",
+    explorerChainId: 10,
+    defaultRpc: "https://mainnet.optimism.io",
+    rpcEnv: "RPC_OP",
+    multicall3: MULTICALL3_ADDRESS,
+    aaveV3Provider: "0xa97684ead0e402dC232d5A977953DF7ECBaB3CDb",
+  },
+  {
+    name: "arbitrum",
+    aliases: ["arb", "arbitrum-one"],
+    chainId: 42161,
+    nativeSymbol: "ETH",
+    nativeDecimals: 18,
+    nativeCoingeckoId: "ethereum",
+    explorerChainId: 42161,
+    defaultRpc: "https://arb1.arbitrum.io/rpc",
+    rpcEnv: "RPC_ARBITRUM",
+    multicall3: MULTICALL3_ADDRESS,
+    aaveV3Provider: "0xa97684ead0e402dC232d5A977953DF7ECBaB3CDb",
+  },
+  {
+    name: "polygon",
+    aliases: ["matic", "pol"],
+    chainId: 137,
+    nativeSymbol: "POL",
+    nativeDecimals: 18,
+    nativeCoingeckoId: "polygon-ecosystem-token",
+    explorerChainId: 137,
+    defaultRpc: "https://polygon-rpc.com",
+    rpcEnv: "RPC_POLYGON",
+    multicall3: MULTICALL3_ADDRESS,
+    aaveV3Provider: "0xa97684ead0e402dC232d5A977953DF7ECBaB3CDb",
+  },
+  {
+    name: "zora",
+    aliases: [],
+    chainId: 7777777,
+    nativeSymbol: "ETH",
+    nativeDecimals: 18,
+    nativeCoingeckoId: "ethereum",
+    explorerChainId: null, // not covered by the Etherscan v2 API
+    defaultRpc: "https://rpc.zora.energy",
+    rpcEnv: "RPC_ZORA",
+    multicall3: MULTICALL3_ADDRESS,
+    aaveV3Provider: null,
+  },
+];
+
+/** Look up a registry chain by canonical name or alias (case-insensitive). */
+export function findKnownChain(nameOrAlias: string): ChainInfo | undefined {
+  const key = nameOrAlias.trim().toLowerCase();
+  return KNOWN_CHAINS.find((c) => c.name === key || c.aliases.includes(key));
+}
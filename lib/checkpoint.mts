@@ -0,0 +1,93 @@
+import { appendFile, readFile, rename, rm, writeFile } from "node:fs/promises";
+
+import type { Summary } from "./summary.mjs";
+
+/**
+ * ======= Inbound run checkpoints =======
+ * Saved next to the output CSV after every explorer page: `<csv>.checkpoint.json` holds the
+ * position and totals, `<csv>.seen` the dedupe keys of the rows written so far (one per line).
+ */
+export type CheckpointPosition = {
+  chain: string;
+  wallet: string;
+  chunk: number; // chunk start, unix seconds
+  token: string; // token contract being paged ("" for internal transfers)
+  page: number; // next explorer page to fetch
+  lastBlock: number; // highest block written for this wallet so far
+};
+
+export type Checkpoint = {
+  run: string; // the run's options; --resume refuses a checkpoint from different ones
+  bytes: number; // CSV size at the checkpoint; anything after it is a partially written page
+  seenCount: number; // keys in the .seen log at the checkpoint
+  done: string[]; // "chain|wallet" entries fully written
+  positions: CheckpointPosition[]; // where each wallet in progress stopped (several with --concurrency)
+  totals: { amount: string; usd: string; written: number }; // exact decimal strings
+  summary: Summary; // group/chain/asset totals so far
+};
+
+const checkpointFile = (outFile: string) => `${outFile}.checkpoint.json`;
+const seenFile = (outFile: string) => `${outFile}.seen`;
+
+export async function loadCheckpoint(outFile: string): Promise<Checkpoint | null> {
+  try {
+    const { position, ...rest } = JSON.parse(await readFile(checkpointFile(outFile), "utf8"));
+    // Checkpoints from before --concurrency held a single position
+    return { ...rest, positions: rest.positions ?? (position ? [position] : []) } as Checkpoint;
+  } catch {
+    return null;
+  }
+}
+
+// Written to a temp file and renamed so a kill mid-write leaves the previous checkpoint intact
+export async function saveCheckpoint(outFile: string, checkpoint: Checkpoint): Promise<void> {
+  const file = checkpointFile(outFile);
+  await writeFile(`${file}.tmp`, JSON.stringify(checkpoint), "utf8");
+  await rename(`${file}.tmp`, file);
+}
+
+/** The first `count` keys of the .seen log; later keys belong to a page that never checkpointed and are dropped. */
+export async function loadSeenKeys(outFile: string, count: number): Promise<string[]> {
+  const text = await readFile(seenFile(outFile), "utf8").catch(() => "");
+  const keys = text.split("\n").filter(Boolean).slice(0, count);
+  await writeFile(seenFile(outFile), keys.map((k) => k + "\n").join(""), "utf8");
+  return keys;
+}
+
+export async function appendSeenKeys(outFile: string, keys: string[]): Promise<void> {
+  if (keys.length > 0) await appendFile(seenFile(outFile), keys.map((k) => k + "\n").join(""), "utf8");
+}
+
+/** Replace the .seen log with `keys` (watch mode drops the keys of cursors it has saved). */
+export async function writeSeenKeys(outFile: string, keys: Iterable<string>): Promise<void> {
+  await writeFile(seenFile(outFile), Array.from(keys, (k) => k + "\n").join(""), "utf8");
+}
+
+export async function clearCheckpoint(outFile: string): Promise<void> {
+  await rm(checkpointFile(outFile), { force: true });
+  await rm(seenFile(outFile), { force: true });
+}
+
+/**
+ * Watch mode keeps its cursors in `<csv>.watch.json`: the last block reported per
+ * `chain|wallet|token` ("native" for internal transfers), so a restart picks up after it. Transfers
+ * delivered past a cursor that isn't saved yet go to the `<csv>.seen` log as they're sent, so a
+ * restart after a crash skips them instead of sending them again.
+ */
+export type WatchState = { cursors: Record<string, number> };
+
+const watchFile = (outFile: string) => `${outFile}.watch.json`;
+
+export async function loadWatchState(outFile: string): Promise<WatchState | null> {
+  try {
+    return JSON.parse(await readFile(watchFile(outFile), "utf8")) as WatchState;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveWatchState(outFile: string, state: WatchState): Promise<void> {
+  const file = watchFile(outFile);
+  await writeFile(`${file}.tmp`, JSON.stringify(state), "utf8");
+  await rename(`${file}.tmp`, file);
+}
@@ -0,0 +1,446 @@
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { isAddress, type Address } from "viem";
+
+import { findKnownChain, KNOWN_CHAINS, MULTICALL3_ADDRESS, type ChainInfo } from "./chains.mjs";
+import { PRICE_SOURCES, type PriceSourceName } from "./prices.mjs";
+import type { LimitsCfg } from "./scheduler.mjs";
+
+/** ======= Shared config: chains, RPCs, tokens, price IDs, wallets ======= */
+export type ChainName = string; // canonical chain name, e.g. "base"
+
+export type TokenCfg = {
+  symbol: string;
+  address: Address;
+  decimals: number;
+  coingeckoId?: string;
+};
+
+/** A Solidly-style pool (Aerodrome, Velodrome v2) whose LP tokens snapshots split into the two underlying tokens. */
+export type LpCfg = {
+  pool: Address;
+  gauge: Address | null; // gauge holding staked LP tokens
+  protocol: string; // name in outputs, e.g. aerodrome
+};
+
+/** Protocol positions read by `snapshot --positions`. */
+export type PositionsCfg = {
+  aave: Address | null; // Aave v3 PoolAddressesProvider; null = skip Aave
+  lp: LpCfg[];
+};
+
+export type ChainCfg = Omit<ChainInfo, "defaultRpc" | "rpcEnv" | "multicall3" | "aaveV3Provider"> & {
+  multicall3: Address | null;
+  rpc: string; // archive-capable provider (snapshot balances)
+  publicRpc: string; // keyless endpoint for block/timestamp lookups (defaults to rpc)
+  tokens: TokenCfg[];
+  positions: PositionsCfg;
+};
+
+export type PricesCfg = {
+  order: PriceSourceName[]; // providers tried first to last
+  file: string; // local (date, asset, price) CSV/JSON; "" = none
+  pegged: Record<string, number>; // CoinGecko id or token address -> fixed USD price
+};
+
+/** One wallet entry: `[chain:]address-or-name` plus an optional label and group tags. */
+export type WalletCfg = {
+  entry: string;
+  label: string;
+  groups: string[];
+};
+
+export type Config = {
+  source: string; // file path, or "defaults"
+  chains: ChainCfg[];
+  wallets: WalletCfg[];
+  prices: PricesCfg;
+  limits: LimitsCfg; // request limits per provider, over the scheduler's defaults
+};
+
+// Stablecoins priced at $1 when nothing earlier in the order has a price. Keyed by CoinGecko id,
+// so only tokens the config declares with that id are pegged
+export const DEFAULT_PEGS: Record<string, number> = {
+  "usd-coin": 1,
+  tether: 1,
+  dai: 1,
+};
+
+// Built-in defaults: the chains and token set this repo has always shipped with.
+// Everything else about each chain comes from the registry in chains.mts.
+const DEFAULT_CONFIG = {
+  chains: {
+    base: {
+      tokens: [
+        {
+          symbol: "USDC",
+          address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+          decimals: 6,
+          coingeckoId: "usd-coin",
+        },
+      ],
+    },
+    optimism: {
+      tokens: [
+        {
+          symbol: "USDC",
+          address: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85",
+          decimals: 6,
+          coingeckoId: "usd-coin",
+        },
+        {
+          symbol: "OP",
+          address: "0x4200000000000000000000000000000000000042",
+          decimals: 18,
+          coingeckoId: "optimism",
+        },
+      ],
+    },
+  },
+  wallets: [],
+};
+
+// `${VAR}` in string values is replaced from the environment (keeps API keys out of the file)
+function interpolateEnv(value: string): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => process.env[name] || "");
+}
+
+function fail(source: string, path: string, message: string): never {
+  throw new Error(`Invalid config (${source}): ${path} ${message}`);
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+// Typos (`tokns:`, `rpcs:`) would otherwise load silently and drop what they meant to set
+function rejectUnknownKeys(source: string, path: string, raw: Record<string, unknown>, allowed: string[]): void {
+  const unknown = Object.keys(raw).filter((k) => !allowed.includes(k));
+  if (unknown.length > 0) fail(source, path, `has unknown keys: ${unknown.join(", ")} (expected ${allowed.join(", ")})`);
+}
+
+function readString(source: string, path: string, v: unknown, opts: { optional?: boolean } = {}): string {
+  if (v == null && opts.optional) return "";
+  if (typeof v !== "string" || v.trim() === "") fail(source, path, "must be a non-empty string");
+  return interpolateEnv(v.trim());
+}
+
+function readInt(source: string, path: string, v: unknown, min: number, max: number): number {
+  if (typeof v !== "number" || !Number.isInteger(v) || v < min || v > max) {
+    fail(source, path, `must be an integer between ${min} and ${max}`);
+  }
+  return v;
+}
+
+function validateToken(source: string, path: string, raw: unknown): TokenCfg {
+  if (!isObject(raw)) fail(source, path, "must be an object with symbol, address and decimals");
+  rejectUnknownKeys(source, path, raw, ["symbol", "address", "decimals", "coingeckoId"]);
+  const address = readString(source, `${path}.address`, raw.address);
+  if (!isAddress(address, { strict: false })) fail(source, `${path}.address`, `is not a valid address: ${address}`);
+  const token: TokenCfg = {
+    symbol: readString(source, `${path}.symbol`, raw.symbol),
+    address: address as Address,
+    decimals: readInt(source, `${path}.decimals`, raw.decimals, 0, 255),
+  };
+  const coingeckoId = readString(source, `${path}.coingeckoId`, raw.coingeckoId, { optional: true });
+  if (coingeckoId) token.coingeckoId = coingeckoId;
+  return token;
+}
+
+// LP pools are named after the Solidly fork that runs on the chain
+const LP_PROTOCOLS: Record<string, string> = { base: "aerodrome", optimism: "velodrome" };
+
+function readAddress(source: string, path: string, v: unknown): Address {
+  const address = readString(source, path, v);
+  if (!isAddress(address, { strict: false })) fail(source, path, `is not a valid address: ${address}`);
+  return address as Address;
+}
+
+/** `positions:` section of a chain: `aave` (PoolAddressesProvider, or null) and `lp` pools. */
+function validatePositions(source: string, path: string, raw: unknown, chainName: string, known?: ChainInfo): PositionsCfg {
+  if (raw == null) raw = {};
+  if (!isObject(raw)) fail(source, path, "must be an object");
+  rejectUnknownKeys(source, path, raw, ["aave", "lp"]);
+  const aave = raw.aave === null
+    ? null
+    : raw.aave != null
+      ? readAddress(source, `${path}.aave`, raw.aave)
+      : (known?.aaveV3Provider ?? null) as Address | null;
+  if (raw.lp != null && !Array.isArray(raw.lp)) fail(source, `${path}.lp`, "must be a list");
+  const lp = ((raw.lp as unknown[] | undefined) || []).map((p, i): LpCfg => {
+    const at = `${path}.lp[${i}]`;
+    if (typeof p === "string") return { pool: readAddress(source, at, p), gauge: null, protocol: LP_PROTOCOLS[chainName] ?? "solidly" };
+    if (!isObject(p)) fail(source, at, "must be a pool address or { pool, gauge?, protocol? }");
+    rejectUnknownKeys(source, at, p, ["pool", "gauge", "protocol"]);
+    return {
+      pool: readAddress(source, `${at}.pool`, p.pool),
+      gauge: p.gauge != null ? readAddress(source, `${at}.gauge`, p.gauge) : null,
+      protocol: readString(source, `${at}.protocol`, p.protocol, { optional: true }) || (LP_PROTOCOLS[chainName] ?? "solidly"),
+    };
+  });
+  return { aave, lp };
+}
+
+function readOptionalInt(source: string, path: string, v: unknown, min: number, max: number): number | undefined {
+  return v == null ? undefined : readInt(source, path, v, min, max);
+}
+
+/**
+ * Registry chains (by name or alias) only need what differs from chains.mts, usually
+ * `rpc` and `tokens`. Any other key defines a custom chain and needs at least
+ * chainId, nativeSymbol and an RPC URL.
+ */
+function validateChain(source: string, key: string, raw: unknown): ChainCfg {
+  const path = `chains.${key}`;
+  if (raw == null) raw = {};
+  if (!isObject(raw)) fail(source, path, "must be an object");
+  rejectUnknownKeys(source, path, raw, [
+    "chainId", "aliases", "nativeSymbol", "nativeDecimals", "nativeCoingeckoId", "explorerChainId", "multicall3",
+    "rpc", "publicRpc", "tokens", "positions",
+  ]);
+  const known = findKnownChain(key);
+
+  const chainId = readOptionalInt(source, `${path}.chainId`, raw.chainId, 1, Number.MAX_SAFE_INTEGER) ?? known?.chainId;
+  if (chainId == null) {
+    fail(source, path, `is not a known chain (${KNOWN_CHAINS.map((c) => c.name).join(", ")}); set chainId to define it`);
+  }
+  const nativeSymbol = readString(source, `${path}.nativeSymbol`, raw.nativeSymbol, { optional: true }) ||
+    known?.nativeSymbol;
+  if (!nativeSymbol) fail(source, `${path}.nativeSymbol`, "must be set for a custom chain");
+
+  const rpc = readString(source, `${path}.rpc`, raw.rpc, { optional: true }) ||
+    (known ? process.env[known.rpcEnv] || "" : "");
+  const publicRpc = readString(source, `${path}.publicRpc`, raw.publicRpc, { optional: true }) ||
+    known?.defaultRpc || rpc;
+  if (!rpc && !publicRpc) fail(source, path, "needs an rpc or publicRpc URL");
+
+  // explorerChainId: null switches explorer lookups off for the chain
+  const explorerChainId = raw.explorerChainId === null
+    ? null
+    : readOptionalInt(source, `${path}.explorerChainId`, raw.explorerChainId, 1, Number.MAX_SAFE_INTEGER) ??
+      (known ? known.explorerChainId : chainId);
+
+  // multicall3: null switches batched balance reads off for the chain
+  let multicall3: Address | null = (known ? known.multicall3 : MULTICALL3_ADDRESS) as Address | null;
+  if (raw.multicall3 === null) {
+    multicall3 = null;
+  } else if (raw.multicall3 != null) {
+    const addr = readString(source, `${path}.multicall3`, raw.multicall3);
+    if (!isAddress(addr, { strict: false })) fail(source, `${path}.multicall3`, `is not a valid address: ${addr}`);
+    multicall3 = addr as Address;
+  }
+
+  if (raw.aliases != null && !Array.isArray(raw.aliases)) fail(source, `${path}.aliases`, "must be a list");
+  const extraAliases = ((raw.aliases as unknown[] | undefined) || []).map((a, i) =>
+    readString(source, `${path}.aliases[${i}]`, a).toLowerCase(),
+  );
+  const name = known?.name || key.trim().toLowerCase();
+  const aliases = Array.from(new Set([...(known?.aliases || []), ...extraAliases, key.trim().toLowerCase()]))
+    .filter((a) => a !== name);
+
+  if (raw.tokens != null && !Array.isArray(raw.tokens)) fail(source, `${path}.tokens`, "must be a list");
+  const tokens = ((raw.tokens as unknown[] | undefined) || []).map((t, i) =>
+    validateToken(source, `${path}.tokens[${i}]`, t),
+  );
+  const seen = new Set<string>();
+  for (const [i, t] of tokens.entries()) {
+    const k = t.address.toLowerCase();
+    if (seen.has(k)) fail(source, `${path}.tokens[${i}].address`, `duplicates another token (${t.address})`);
+    seen.add(k);
+  }
+
+  return {
+    name,
+    aliases,
+    chainId,
+    nativeSymbol,
+    nativeDecimals: readOptionalInt(source, `${path}.nativeDecimals`, raw.nativeDecimals, 0, 255) ??
+      known?.nativeDecimals ?? 18,
+    nativeCoingeckoId: readString(source, `${path}.nativeCoingeckoId`, raw.nativeCoingeckoId, { optional: true }) ||
+      known?.nativeCoingeckoId || "",
+    explorerChainId,
+    multicall3,
+    rpc,
+    publicRpc,
+    tokens,
+    positions: validatePositions(source, `${path}.positions`, raw.positions, name, known),
+  };
+}
+
+/** Parse a comma-separated provider list such as "file,coingecko,pegged". */
+export function parsePriceOrder(value: string): PriceSourceName[] {
+  const order = value.split(",").map((s) => s.trim().toLowerCase()).filter(Boolean);
+  for (const name of order) {
+    if (!PRICE_SOURCES.includes(name as PriceSourceName)) {
+      throw new Error(`Unknown price source "${name}" (expected ${PRICE_SOURCES.join(", ")})`);
+    }
+  }
+  if (order.length === 0) throw new Error("Price source list is empty");
+  return Array.from(new Set(order)) as PriceSourceName[];
+}
+
+/** `prices:` section. Without an explicit order: file (when set), then CoinGecko, then pegs. */
+function validatePrices(source: string, raw: unknown): PricesCfg {
+  if (raw == null) raw = {};
+  if (!isObject(raw)) fail(source, "prices", "must be an object");
+  rejectUnknownKeys(source, "prices", raw, ["order", "file", "pegged"]);
+  const file = readString(source, "prices.file", raw.file, { optional: true });
+
+  let order: PriceSourceName[];
+  if (raw.order == null) {
+    order = file ? ["file", "coingecko", "pegged"] : ["coingecko", "pegged"];
+  } else {
+    if (!Array.isArray(raw.order) && typeof raw.order !== "string") fail(source, "prices.order", "must be a list");
+    const list = Array.isArray(raw.order) ? raw.order.join(",") : raw.order;
+    try {
+      order = parsePriceOrder(list);
+    } catch (e: any) {
+      fail(source, "prices.order", e?.message || String(e));
+    }
+  }
+
+  let pegged = { ...DEFAULT_PEGS };
+  if (raw.pegged != null) {
+    if (!isObject(raw.pegged)) fail(source, "prices.pegged", "must map CoinGecko ids or token addresses to USD prices");
+    // an explicit map replaces the defaults
+    pegged = {};
+    for (const [k, v] of Object.entries(raw.pegged)) {
+      if (!isAddress(k, { strict: false }) && !/^[a-z0-9][a-z0-9-]*$/.test(k)) {
+        fail(source, `prices.pegged.${k}`, "must be keyed by a CoinGecko id or token address (symbols can't be trusted)");
+      }
+      if (typeof v !== "number" || !Number.isFinite(v) || v < 0) fail(source, `prices.pegged.${k}`, "must be a number");
+      pegged[k.toLowerCase()] = v;
+    }
+  }
+  return { order, file, pegged };
+}
+
+/** `limits:` section: `etherscan`, `coingecko`, `default` or a host name -> { rps, burst, maxInFlight }. */
+function validateLimits(source: string, raw: unknown): LimitsCfg {
+  if (raw == null) return {};
+  if (!isObject(raw)) fail(source, "limits", "must map providers to { rps, burst, maxInFlight }");
+  const out: LimitsCfg = {};
+  for (const [provider, v] of Object.entries(raw)) {
+    const path = `limits.${provider}`;
+    if (!isObject(v)) fail(source, path, "must be an object with rps, burst and/or maxInFlight");
+    rejectUnknownKeys(source, path, v, ["rps", "burst", "maxInFlight"]);
+    if (v.rps != null && (typeof v.rps !== "number" || !Number.isFinite(v.rps) || v.rps <= 0)) {
+      fail(source, `${path}.rps`, "must be a positive number");
+    }
+    out[provider.toLowerCase()] = {
+      ...(v.rps != null && { rps: v.rps as number }),
+      ...(v.burst != null && { burst: readInt(source, `${path}.burst`, v.burst, 1, 10_000) }),
+      ...(v.maxInFlight != null && { maxInFlight: readInt(source, `${path}.maxInFlight`, v.maxInFlight, 1, 1000) }),
+    };
+  }
+  return out;
+}
+
+const splitGroups = (v: string) => Array.from(new Set(v.split(";").map((g) => g.trim()).filter(Boolean)));
+
+/**
+ * Parse the compact wallet syntax used by WALLETS and string entries in the config:
+ * `[chain:]address-or-name[|label[|group1;group2]]`.
+ */
+export function parseWalletEntry(value: string): WalletCfg {
+  const [entry = "", label = "", groups = ""] = value.split("|").map((s) => s.trim());
+  return { entry, label, groups: splitGroups(groups) };
+}
+
+/** `wallets:` item: a compact string, or `{ address, chain?, label?, groups? }`. */
+function validateWallet(source: string, path: string, raw: unknown): WalletCfg {
+  if (!isObject(raw)) return parseWalletEntry(readString(source, path, raw));
+  rejectUnknownKeys(source, path, raw, ["address", "chain", "label", "groups"]);
+  const address = readString(source, `${path}.address`, raw.address);
+  const chain = readString(source, `${path}.chain`, raw.chain, { optional: true });
+  const label = readString(source, `${path}.label`, raw.label, { optional: true });
+  let groups: string[] = [];
+  if (typeof raw.groups === "string") {
+    groups = splitGroups(raw.groups);
+  } else if (raw.groups != null) {
+    if (!Array.isArray(raw.groups)) fail(source, `${path}.groups`, "must be a list of group names");
+    groups = splitGroups(raw.groups.map((g, i) => readString(source, `${path}.groups[${i}]`, g)).join(";"));
+  }
+  return { entry: chain ? `${chain}:${address}` : address, label, groups };
+}
+
+/** Validate a parsed config object; throws with the offending path on the first bad entry. */
+export function validateConfig(raw: unknown, source: string): Config {
+  if (!isObject(raw)) fail(source, "(root)", "must be an object");
+  rejectUnknownKeys(source, "(root)", raw, ["chains", "wallets", "prices", "limits"]);
+  if (!isObject(raw.chains)) fail(source, "chains", "must be an object keyed by chain name");
+  const chains = Object.entries(raw.chains).map(([key, c]) => validateChain(source, key, c));
+  if (chains.length === 0) fail(source, "chains", "must define at least one chain");
+  const owners = new Map<string, string>();
+  for (const c of chains) {
+    for (const n of [c.name, ...c.aliases]) {
+      const other = owners.get(n);
+      if (other) fail(source, `chains.${c.name}`, `name/alias "${n}" is already used by ${other}`);
+      owners.set(n, c.name);
+    }
+  }
+
+  if (raw.wallets != null && !Array.isArray(raw.wallets)) fail(source, "wallets", "must be a list");
+  const wallets = ((raw.wallets as unknown[] | undefined) || []).map((w, i) => validateWallet(source, `wallets[${i}]`, w));
+
+  return { source, chains, wallets, prices: validatePrices(source, raw.prices), limits: validateLimits(source, raw.limits) };
+}
+
+/**
+ * Apply --prices / --priceFile over the config's `prices` section. A price file given on the
+ * command line without an explicit order is tried first.
+ */
+export function applyPriceArgs(prices: PricesCfg, args: { order?: string | undefined; file?: string | undefined }): PricesCfg {
+  const file = args.file || prices.file;
+  let order = args.order ? parsePriceOrder(args.order) : prices.order;
+  if (!args.order && args.file && !order.includes("file")) order = ["file", ...order];
+  if (order.includes("file") && !file) throw new Error('Price source "file" needs --priceFile or prices.file');
+  return { ...prices, order, file };
+}
+
+/**
+ * Load the shared config from a JSON or YAML file (by extension), or the built-in
+ * defaults when no path is given.
+ */
+export async function loadConfig(path: string): Promise<Config> {
+  if (!path) return validateConfig(DEFAULT_CONFIG, "defaults");
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (e: any) {
+    throw new Error(`Cannot read config file ${path}: ${e?.message || String(e)}`);
+  }
+  let raw: unknown;
+  try {
+    raw = [".yaml", ".yml"].includes(extname(path).toLowerCase()) ? parseYaml(text) : JSON.parse(text);
+  } catch (e: any) {
+    throw new Error(`Cannot parse config file ${path}: ${e?.message || String(e)}`);
+  }
+  return validateConfig(raw, path);
+}
+
+/** Wallet entries: WALLETS env wins when set, otherwise the config's list. */
+export function rawWallets(config: Config): WalletCfg[] {
+  const fromEnv = (process.env.WALLETS || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return fromEnv.length > 0 ? fromEnv.map(parseWalletEntry) : config.wallets;
+}
+
+/** Configured chain by canonical name or alias (case-insensitive). */
+export function getChain(config: Config, nameOrAlias: string): ChainCfg | undefined {
+  const key = nameOrAlias.trim().toLowerCase();
+  return config.chains.find((c) => c.name === key || c.aliases.includes(key));
+}
+
+/** CoinGecko IDs by token contract (lowercased), across all chains. */
+export function coingeckoIdsByAddress(config: Config): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const chain of config.chains) {
+    for (const t of chain.tokens) {
+      if (t.coingeckoId) out[t.address.toLowerCase()] = t.coingeckoId;
+    }
+  }
+  return out;
+}
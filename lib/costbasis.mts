@@ -0,0 +1,142 @@
+import { usdValue, type Dec } from "./amounts.mjs";
+
+/**
+ * ======= Cost basis: lot matching (FIFO / LIFO / HIFO) =======
+ * Quantities are exact decimals; each realized slice's cost and proceeds are rounded to the cent.
+ */
+export type LotMethod = "fifo" | "lifo" | "hifo";
+
+export const LOT_METHODS: LotMethod[] = ["fifo", "lifo", "hifo"];
+
+// Lots are tracked per chain, wallet and asset
+export type AssetRef = {
+  chain: string;
+  wallet: string;
+  asset: string; // symbol
+  tokenAddress: string; // "" for the native asset
+};
+
+export type LotEvent = AssetRef & {
+  kind: "acquire" | "dispose";
+  reason: string; // e.g. receive, send, fee
+  ts: number; // unix seconds
+  quantity: Dec;
+  unitUsd: Dec | null; // day price; null when unpriced
+  hash: string;
+};
+
+export type Lot = AssetRef & {
+  ts: number;
+  quantity: Dec; // remaining
+  unitUsd: Dec | null;
+  hash: string;
+};
+
+export type RealizedRow = AssetRef & {
+  reason: string;
+  acquiredTs: number | null; // null when the disposal had no lot to match
+  disposedTs: number;
+  quantity: Dec;
+  costUsd: Dec | null;
+  proceedsUsd: Dec | null;
+  gainUsd: Dec | null;
+  term: "short" | "long" | "";
+  lotHash: string;
+  disposalHash: string;
+  flags: string[]; // no_lots = disposed more than was acquired; unpriced = cost or proceeds unknown
+};
+
+export const assetKey = (a: AssetRef) =>
+  `${a.chain}|${a.wallet.toLowerCase()}|${a.tokenAddress.toLowerCase() || "native"}`;
+
+/** Long term = held for more than one year (acquired date + 1 calendar year < disposal). */
+export function holdingTerm(acquiredTs: number, atTs: number): "short" | "long" {
+  const d = new Date(acquiredTs * 1000);
+  const anniversary = Date.UTC(d.getUTCFullYear() + 1, d.getUTCMonth(), d.getUTCDate()) / 1000;
+  return atTs > anniversary ? "long" : "short";
+}
+
+// Index of the open lot a disposal draws from next
+function pickLot(lots: Lot[], method: LotMethod): number {
+  if (method === "fifo") return 0;
+  if (method === "lifo") return lots.length - 1;
+  let best = 0;
+  for (let i = 1; i < lots.length; i++) {
+    const a = lots[i]!.unitUsd;
+    const b = lots[best]!.unitUsd;
+    if (a != null && (b == null || a.gt(b))) best = i;
+  }
+  return best;
+}
+
+/**
+ * Replay acquisitions and disposals in time order (acquisitions first within the same second)
+ * and match each disposal against open lots of the same chain/wallet/asset. Disposals split
+ * lots as needed; returns one realized row per lot slice plus the lots still open.
+ */
+export function matchLots(events: LotEvent[], method: LotMethod): { realized: RealizedRow[]; open: Lot[] } {
+  const sorted = [...events].sort((a, b) => a.ts - b.ts || (a.kind === b.kind ? 0 : a.kind === "acquire" ? -1 : 1));
+  const lotsByKey = new Map<string, Lot[]>();
+  const realized: RealizedRow[] = [];
+
+  for (const e of sorted) {
+    if (!e.quantity.gt(0)) continue;
+    const key = assetKey(e);
+    const lots = lotsByKey.get(key) ?? [];
+    lotsByKey.set(key, lots);
+    const ref: AssetRef = { chain: e.chain, wallet: e.wallet, asset: e.asset, tokenAddress: e.tokenAddress };
+
+    if (e.kind === "acquire") {
+      lots.push({ ...ref, ts: e.ts, quantity: e.quantity, unitUsd: e.unitUsd, hash: e.hash });
+      continue;
+    }
+
+    let remaining = e.quantity;
+    while (remaining.gt(0)) {
+      const proceeds = (qty: Dec) => (e.unitUsd != null ? usdValue(qty, e.unitUsd) : null);
+      if (lots.length === 0) {
+        const proceedsUsd = proceeds(remaining);
+        realized.push({
+          ...ref,
+          reason: e.reason,
+          acquiredTs: null,
+          disposedTs: e.ts,
+          quantity: remaining,
+          costUsd: null,
+          proceedsUsd,
+          gainUsd: null,
+          term: "",
+          lotHash: "",
+          disposalHash: e.hash,
+          flags: ["no_lots"],
+        });
+        break;
+      }
+      const i = pickLot(lots, method);
+      const lot = lots[i]!;
+      const qty = lot.quantity.lt(remaining) ? lot.quantity : remaining;
+      const costUsd = lot.unitUsd != null ? usdValue(qty, lot.unitUsd) : null;
+      const proceedsUsd = proceeds(qty);
+      realized.push({
+        ...ref,
+        reason: e.reason,
+        acquiredTs: lot.ts,
+        disposedTs: e.ts,
+        quantity: qty,
+        costUsd,
+        proceedsUsd,
+        gainUsd: costUsd != null && proceedsUsd != null ? proceedsUsd.minus(costUsd) : null,
+        term: holdingTerm(lot.ts, e.ts),
+        lotHash: lot.hash,
+        disposalHash: e.hash,
+        flags: costUsd == null || proceedsUsd == null ? ["unpriced"] : [],
+      });
+      lot.quantity = lot.quantity.minus(qty);
+      remaining = remaining.minus(qty);
+      if (lot.quantity.isZero()) lots.splice(i, 1);
+    }
+  }
+
+  const open = Array.from(lotsByKey.values()).flat().sort((a, b) => a.ts - b.ts);
+  return { realized, open };
+}
@@ -0,0 +1,60 @@
+import { readFile } from "node:fs/promises";
+
+/** ======= Reading the CSVs these scripts write (and hand-made price files) ======= */
+
+/** Split CSV text into rows of cells; handles quoted cells with commas, quotes and newlines. */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+/** Rows keyed by the header line's column names (trimmed, lowercased). */
+export function parseCsv(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return [];
+  const names = header.map((h) => h.trim().toLowerCase());
+  return rows.map((cells) => Object.fromEntries(names.map((n, i) => [n, (cells[i] ?? "").trim()])));
+}
+
+export async function readCsvFile(path: string): Promise<Record<string, string>[]> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (e: any) {
+    throw new Error(`Cannot read ${path}: ${e?.message || String(e)}`);
+  }
+  return parseCsv(text);
+}
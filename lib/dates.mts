@@ -0,0 +1,54 @@
+/** ======= Date helpers for snapshot points and series ======= */
+export type Every = "day" | "week" | "month" | "quarter";
+
+export const EVERY_VALUES: Every[] = ["day", "week", "month", "quarter"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a CLI date. A bare `YYYY-MM-DD` means the end of that UTC day (23:59:59Z),
+ * matching the EOY convention; anything else must be a full ISO timestamp.
+ * Returns a normalized ISO string without milliseconds, or null when unparseable.
+ */
+export function parseDateArg(value: string): string | null {
+  const v = value.trim();
+  const ms = /^\d{4}-\d{2}-\d{2}$/.test(v)
+    ? Date.parse(`${v}T23:59:59Z`)
+    : Date.parse(v);
+  if (!Number.isFinite(ms)) return null;
+  return toIsoSeconds(ms);
+}
+
+export function toIsoSeconds(ms: number): string {
+  return new Date(ms).toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+// Last second of the UTC day containing `ms`
+function endOfDay(ms: number): number {
+  return Math.floor(ms / DAY_MS) * DAY_MS + DAY_MS - 1000;
+}
+
+function isPeriodEnd(ms: number, every: Every): boolean {
+  const d = new Date(ms);
+  const tomorrow = new Date(ms + DAY_MS);
+  switch (every) {
+    case "day":
+      return true;
+    case "week":
+      return d.getUTCDay() === 0; // weeks end on Sunday
+    case "month":
+      return tomorrow.getUTCDate() === 1;
+    case "quarter":
+      return tomorrow.getUTCDate() === 1 && tomorrow.getUTCMonth() % 3 === 0;
+  }
+}
+
+/** End-of-day timestamps (ISO) of every day/week/month/quarter end within [fromIso, toIso]. */
+export function periodEnds(fromIso: string, toIso: string, every: Every): string[] {
+  const out: string[] = [];
+  const toMs = Date.parse(toIso);
+  for (let ms = endOfDay(Date.parse(fromIso)); ms <= toMs; ms += DAY_MS) {
+    if (isPeriodEnd(ms, every)) out.push(toIsoSeconds(ms));
+  }
+  return out;
+}
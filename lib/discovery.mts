@@ -0,0 +1,84 @@
+import type { Address, createPublicClient } from "viem";
+
+import { readTokenMetadata } from "./balances.mjs";
+import type { ChainCfg } from "./config.mjs";
+import { fetchAccountPages } from "./etherscan.mjs";
+
+/** ======= Token discovery from a wallet's ERC-20 transfer history ======= */
+type Client = ReturnType<typeof createPublicClient>;
+
+export type DiscoveredToken = {
+  address: Address;
+  symbol: string;
+  decimals: number;
+};
+
+/**
+ * Token contracts each wallet sent or received up to `endBlock` (Etherscan tokentx), minus the
+ * chain's configured tokens and `exclude` (position tokens when positions are read), with
+ * symbol()/decimals() read on-chain at `endBlock`. The explorer's
+ * tokenSymbol/tokenDecimal fill in when the contract doesn't answer. `finalized` lets the
+ * explorer pages come from the on-disk cache.
+ */
+export async function discoverTokens(
+  client: Client,
+  chain: ChainCfg,
+  wallets: Address[],
+  endBlock: bigint,
+  opts: { maxPages: number; finalized: boolean; exclude?: Set<string> },
+): Promise<Map<Address, DiscoveredToken[]>> {
+  const byWallet = new Map<Address, DiscoveredToken[]>();
+  if (chain.explorerChainId == null) {
+    console.warn(`[warn] ${chain.name} has no explorer API coverage; token discovery skipped`);
+    return byWallet;
+  }
+  const configured = new Set([...chain.tokens.map((t) => t.address.toLowerCase()), ...(opts.exclude ?? [])]);
+
+  // explorer metadata per contract, and which contracts each wallet touched
+  const explorerMeta = new Map<string, { address: Address; symbol: string; decimals: number | null }>();
+  const touched = new Map<Address, Set<string>>();
+  for (const wallet of wallets) {
+    const rows = await fetchAccountPages(chain.explorerChainId, "tokentx", wallet, {
+      startBlock: 0,
+      endBlock: Number(endBlock),
+      maxPages: opts.maxPages,
+      finalized: opts.finalized,
+    });
+    const set = new Set<string>();
+    for (const t of rows) {
+      const addr = String(t.contractAddress || "").toLowerCase();
+      if (!addr || configured.has(addr)) continue;
+      set.add(addr);
+      if (!explorerMeta.has(addr)) {
+        const decimals = Number.parseInt(t.tokenDecimal, 10);
+        explorerMeta.set(addr, {
+          address: t.contractAddress as Address,
+          symbol: t.tokenSymbol || "",
+          decimals: Number.isFinite(decimals) ? decimals : null,
+        });
+      }
+    }
+    touched.set(wallet, set);
+  }
+
+  const onchain = await readTokenMetadata(
+    client,
+    Array.from(explorerMeta.values()).map((m) => m.address),
+    { blockNumber: endBlock, multicall3: chain.multicall3 },
+  );
+  const tokens = new Map<string, DiscoveredToken>();
+  for (const [addr, m] of explorerMeta) {
+    const meta = onchain.get(addr);
+    const decimals = meta?.decimals ?? m.decimals;
+    if (decimals == null) {
+      console.warn(`[warn] ${chain.name}: skipping ${m.address}; decimals unknown`);
+      continue;
+    }
+    tokens.set(addr, { address: m.address, symbol: meta?.symbol || m.symbol || "?", decimals });
+  }
+
+  for (const [wallet, set] of touched) {
+    byWallet.set(wallet, Array.from(set).flatMap((a) => tokens.get(a) ?? []));
+  }
+  return byWallet;
+}
@@ -0,0 +1,96 @@
+import { cacheGet, cacheSet } from "./cache.mjs";
+import { httpRequest, UpstreamError } from "./transport.mjs";
+
+/** ======= Etherscan v2 (multichain) API ======= */
+export const ETHERSCAN_API_KEY = process.env.ETHERSCAN_API_KEY || "";
+
+export type AccountAction = "txlist" | "txlistinternal" | "tokentx";
+
+// Etherscan GET; pacing and 429 retries come from the `etherscan` limits (free: 5 rps)
+export async function etherscanGet(params: Record<string, any>): Promise<any> {
+  return httpRequest({ method: "GET", url: "https://api.etherscan.io/v2/api", params, timeoutMs: 30000 });
+}
+
+// Pages for finalized ranges never change, so they're served from the on-disk cache
+async function etherscanGetCached(params: Record<string, any>, finalized: boolean): Promise<any> {
+  if (!finalized) return etherscanGet(params);
+  const { apikey: _apikey, ...keyParams } = params;
+  const key = JSON.stringify(Object.entries(keyParams).sort(([a], [b]) => a.localeCompare(b)));
+  const hit = await cacheGet<any>("explorer", key);
+  if (hit !== undefined) return hit;
+  const data = await etherscanGet(params);
+  // Only cache real answers: results, or an explicit empty result
+  if (data?.status === "1" || data?.message === "No transactions found") await cacheSet("explorer", key, data);
+  return data;
+}
+
+/**
+ * Rows of an account-list answer. `status "0"` is an empty list only with "No transactions found";
+ * anything else (rate limit, the 10,000-row result window, a bad key) is an error, since treating it
+ * as the end of the list would silently drop the rest.
+ */
+export function accountRows(data: any, what: string): any[] {
+  if (data?.status === "1") return Array.isArray(data.result) ? data.result : [];
+  if (data?.message === "No transactions found") return [];
+  const detail = [data?.message, typeof data?.result === "string" ? data.result : ""].filter(Boolean).join(": ");
+  const hint = /result window/i.test(detail) ? " (narrow the range, e.g. with --chunkDays)" : "";
+  throw new UpstreamError(`Etherscan ${what} failed: ${detail || "unexpected response"}${hint}`);
+}
+
+export type PageOpts = {
+  startPage?: number; // resume from this page (1-based)
+  onPage?: (page: number, rows: any[]) => Promise<void>; // called after each page arrives
+};
+
+/**
+ * Account list (txlist / txlistinternal / tokentx) between two blocks, oldest first,
+ * paging until a short page or `maxPages` (with a warning when the explorer has rows past the cap).
+ * Explorer errors throw (see accountRows). Set `finalized` when `endBlock` is old enough
+ * for the pages to be cached.
+ */
+export async function fetchAccountPages(
+  chainId: number,
+  action: AccountAction,
+  address: string,
+  opts: { startBlock: number; endBlock: number; maxPages: number; extra?: Record<string, any>; finalized?: boolean } &
+    PageOpts,
+): Promise<any[]> {
+  const offset = 1000;
+  let page = opts.startPage ?? 1;
+  const out: any[] = [];
+  const get = (startBlock: number, pageNo: number, size: number) => etherscanGetCached({
+    chainid: chainId,
+    module: "account",
+    action,
+    address,
+    ...opts.extra,
+    startblock: startBlock,
+    endblock: opts.endBlock,
+    page: pageNo,
+    offset: size,
+    sort: "asc", // oldest first
+    apikey: ETHERSCAN_API_KEY,
+  }, opts.finalized ?? false);
+  while (true) {
+    if (page > opts.maxPages) {
+      // The last page may have been exactly full: probe from the last row's block for one row more
+      // than was fetched from it (past the result window there's no telling, so assume rows are missing)
+      const lastBlock = Number(out[out.length - 1]?.blockNumber ?? opts.startBlock);
+      const inLast = out.filter((r) => Number(r.blockNumber) === lastBlock).length;
+      const more = inLast >= 10000 ||
+        accountRows(await get(lastBlock, 1, inLast + 1), `${action} for ${address} (past maxPages)`).length > inLast;
+      if (more) {
+        console.warn(`[warn] ${action} for ${address} stopped at maxPages=${opts.maxPages} (${out.length} rows); later rows are missing (raise --maxPages or narrow the range)`);
+      }
+      break;
+    }
+    const data = await get(opts.startBlock, page, offset);
+    const arr = accountRows(data, `${action} for ${address} (page ${page})`);
+    if (arr.length === 0) break;
+    out.push(...arr);
+    if (opts.onPage) await opts.onPage(page, arr);
+    if (arr.length < offset) break; // last page
+    page += 1;
+  }
+  return out;
+}
@@ -0,0 +1,92 @@
+import { toRaw } from "./amounts.mjs";
+import type { ChainCfg, ChainName } from "./config.mjs";
+import type { RpcBatch } from "./logs.mjs";
+
+/** ======= Ledger entries: normal, internal and token transfers, both directions ======= */
+export type LedgerEntry = {
+  tsSec: number;
+  block: number;
+  chain: ChainName;
+  wallet: string;
+  hash: string;
+  txType: "normal" | "internal" | "token";
+  direction: "in" | "out" | "self";
+  counterparty: string;
+  symbol: string;
+  tokenAddress: string; // "" for the native asset
+  decimals: number;
+  amountRaw: bigint; // base units; 0 for failed txs
+  feeRaw: bigint; // gas paid by the wallet in wei (normal txs only), L1 data fee included once addL1Fees ran
+  sub: number; // log index / trace position, for ordering within a tx
+  key: string;
+};
+
+const TX_TYPE_RANK: Record<LedgerEntry["txType"], number> = { normal: 0, internal: 1, token: 2 };
+
+/** Chronological order; within a tx the normal leg comes first, then internal, then token transfers. */
+export function compareLedgerEntries(a: LedgerEntry, b: LedgerEntry): number {
+  return a.tsSec - b.tsSec ||
+    a.block - b.block ||
+    a.hash.localeCompare(b.hash) ||
+    TX_TYPE_RANK[a.txType] - TX_TYPE_RANK[b.txType] ||
+    a.sub - b.sub;
+}
+
+// Normalize Etherscan txlist/txlistinternal/tokentx rows into ledger entries for one wallet
+export function toLedgerEntries(
+  cfg: ChainCfg,
+  wallet: string,
+  txType: LedgerEntry["txType"],
+  txs: any[],
+): LedgerEntry[] {
+  const me = wallet.toLowerCase();
+  const chain = cfg.name;
+  const out: LedgerEntry[] = [];
+  for (const [i, t] of txs.entries()) {
+    const from = (t.from || "").toLowerCase();
+    const to = (t.to || "").toLowerCase();
+    if (from !== me && to !== me) continue;
+    const direction = from === me && to === me ? "self" : from === me ? "out" : "in";
+    const failed = t.isError === "1";
+    const decimals = txType === "token" ? Number(t.tokenDecimal || 0) : cfg.nativeDecimals;
+    const amountRaw = failed ? 0n : toRaw(t.value);
+    // Only the sender of a normal tx pays gas; failed txs still burn it
+    const feeRaw = txType === "normal" && from === me ? toRaw(t.gasUsed) * toRaw(t.gasPrice) : 0n;
+    if (amountRaw <= 0n && feeRaw <= 0n) continue;
+    const hash = t.hash || "";
+    const sub = txType === "token" ? Number(t.logIndex || 0) : i;
+    const tokenAddress = txType === "token" ? (t.contractAddress || "").toLowerCase() : "";
+    out.push({
+      tsSec: Number(t.timeStamp || t.timestamp || 0),
+      block: Number(t.blockNumber || 0),
+      chain,
+      wallet,
+      hash,
+      txType,
+      direction,
+      // contract creation has no `to`; the deployed address is the counterparty
+      counterparty: direction === "in" ? t.from || "" : t.to || t.contractAddress || "",
+      symbol: txType === "token" ? t.tokenSymbol || "" : cfg.nativeSymbol,
+      tokenAddress,
+      decimals,
+      amountRaw,
+      feeRaw,
+      sub,
+      key: `${chain}|${me}|${txType}|${hash.toLowerCase()}|${tokenAddress}|${t.logIndex ?? t.traceId ?? ""}`,
+    });
+  }
+  return out;
+}
+
+// OP-stack chains charge an L1 data fee on top of gasUsed * gasPrice; only the receipt has it.
+// Adds it to every entry that paid gas, fetching receipts 100 to a batch
+export async function addL1Fees(entries: LedgerEntry[], batch: RpcBatch): Promise<void> {
+  const paying = entries.filter((e) => e.feeRaw > 0n);
+  for (let i = 0; i < paying.length; i += 100) {
+    const slice = paying.slice(i, i + 100);
+    const receipts = await batch(slice.map((e) => ({ method: "eth_getTransactionReceipt", params: [e.hash] })));
+    slice.forEach((e, j) => {
+      if (receipts[j]?.l1Fee) e.feeRaw += BigInt(receipts[j].l1Fee);
+    });
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * ======= ERC-20 transfers from an RPC's eth_getLogs =======
+ * The explorer-free source for token transfers: Transfer events to (or from) a wallet over a block
+ * range, shaped like Etherscan `tokentx` rows so the same code prices and writes them. Providers cap
+ * one eth_getLogs call by block range or result count, each with its own error; a rejected range
+ * is halved until it passes, and the span grows back after calls that succeed.
+ */
+export const TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+export type RpcCall = (method: string, params: unknown[]) => Promise<any>;
+export type RpcBatch = (calls: { method: string; params: unknown[] }[]) => Promise<any[]>;
+
+export type LogFilter = { address: string[] | null; topics: (string | null)[] };
+
+export type ScanOpts = {
+  span: number; // blocks per call to start with (and the most it grows back to)
+  onSplit?: (fromBlock: number, toBlock: number, e: unknown) => void;
+};
+
+const BLOCKS_PER_BATCH = 100;
+
+const hex = (n: number) => "0x" + n.toString(16);
+
+/** A wallet address as a 32-byte topic. */
+export const addressTopic = (address: string) => "0x" + address.slice(2).toLowerCase().padStart(64, "0");
+
+// How providers phrase "too many blocks / too many results / took too long" (Alchemy, Infura,
+// QuickNode, Ankr, publicnode, geth, erigon, ...), plus 413 and -32005 (limit exceeded)
+const RANGE_ERROR = /block range|range (is )?too (large|wide|big)|too many (blocks|results|logs)|more than \d+ (results|logs)|exceeds? (the )?(max|limit)|limit exceeded|response (size|is too)|query timeout|timed? ?out|max(imum)? (block )?range|10000 results/i;
+
+export function isRangeLimitError(e: unknown): boolean {
+  const err = e as any;
+  if (err?.response?.status === 413 || err?.code === -32005) return true;
+  return RANGE_ERROR.test(String(err?.message ?? "") + " " + JSON.stringify(err?.data ?? err?.response?.data ?? ""));
+}
+
+/**
+ * Everything `fetch` returns over [fromBlock, toBlock], asking for `opts.span` blocks at a time and
+ * halving a range the provider rejects (shared by eth_getLogs and trace_filter).
+ */
+export async function scanBlocks<T>(
+  fetch: (fromBlock: number, toBlock: number) => Promise<T[]>,
+  fromBlock: number,
+  toBlock: number,
+  opts: ScanOpts,
+): Promise<T[]> {
+  const out: T[] = [];
+  let span = Math.max(1, opts.span);
+  let start = fromBlock;
+  while (start <= toBlock) {
+    const end = Math.min(toBlock, start + span - 1);
+    let items: T[];
+    try {
+      items = await fetch(start, end);
+    } catch (e) {
+      if (end === start || !isRangeLimitError(e)) throw e;
+      opts.onSplit?.(start, end, e);
+      span = Math.max(1, Math.floor((end - start + 1) / 2));
+      continue;
+    }
+    out.push(...(Array.isArray(items) ? items : []));
+    start = end + 1;
+    span = Math.min(opts.span, span * 2);
+  }
+  return out;
+}
+
+/** Every log matching `filter` in [fromBlock, toBlock], splitting ranges the provider rejects. */
+export function scanLogs(call: RpcCall, filter: LogFilter, fromBlock: number, toBlock: number, opts: ScanOpts): Promise<any[]> {
+  return scanBlocks((from, to) => call("eth_getLogs", [{
+    fromBlock: hex(from),
+    toBlock: hex(to),
+    ...(filter.address && { address: filter.address }),
+    topics: filter.topics,
+  }]), fromBlock, toBlock, opts);
+}
+
+/** Timestamps of blocks (hex numbers), batched; `known` ones aren't fetched again. */
+export async function blockTimestamps(batch: RpcBatch, blocks: string[], known = new Map<string, number>()): Promise<Map<string, number>> {
+  const out = new Map(known);
+  const missing = Array.from(new Set(blocks)).filter((b) => !out.has(b));
+  for (let i = 0; i < missing.length; i += BLOCKS_PER_BATCH) {
+    const slice = missing.slice(i, i + BLOCKS_PER_BATCH);
+    const res = await batch(slice.map((b) => ({ method: "eth_getBlockByNumber", params: [b, false] })));
+    slice.forEach((b, j) => out.set(b, Number.parseInt(res[j]?.timestamp ?? "0x0", 16)));
+  }
+  return out;
+}
+
+/**
+ * ERC-20 Transfer events of `tokens` sent to `to` (and/or from `from`) in [fromBlock, toBlock],
+ * oldest first, as `tokentx`-style rows (decimal strings for block, time, value and log index).
+ */
+export async function fetchTransferLogs(
+  rpc: { call: RpcCall; batch: RpcBatch },
+  opts: { tokens: string[] | null; to?: string; from?: string; fromBlock: number; toBlock: number } & ScanOpts,
+): Promise<any[]> {
+  const filter: LogFilter = {
+    address: opts.tokens,
+    topics: [TRANSFER_TOPIC, opts.from ? addressTopic(opts.from) : null, opts.to ? addressTopic(opts.to) : null],
+  };
+  // ERC-721 Transfer shares the signature but indexes the token id as a fourth topic
+  const logs = (await scanLogs(rpc.call, filter, opts.fromBlock, opts.toBlock, opts))
+    .filter((l) => !l.removed && l.topics?.length === 3 && l.data && l.data !== "0x");
+  // Some providers put the block's timestamp on each log
+  const known = new Map<string, number>();
+  for (const l of logs) if (l.blockTimestamp) known.set(l.blockNumber, Number.parseInt(l.blockTimestamp, 16));
+  const times = await blockTimestamps(rpc.batch, logs.map((l) => l.blockNumber as string), known);
+  return logs
+    .map((l) => ({
+      blockNumber: String(Number.parseInt(l.blockNumber, 16)),
+      timeStamp: String(times.get(l.blockNumber) ?? 0),
+      hash: l.transactionHash,
+      from: "0x" + l.topics[1].slice(26),
+      to: "0x" + l.topics[2].slice(26),
+      value: BigInt(l.data.slice(0, 66)).toString(),
+      contractAddress: String(l.address).toLowerCase(),
+      logIndex: String(Number.parseInt(l.logIndex, 16)),
+    }))
+    .sort((a, b) => Number(a.blockNumber) - Number(b.blockNumber) || Number(a.logIndex) - Number(b.logIndex));
+}
@@ -0,0 +1,84 @@
+import { parseAbi, type Address } from "viem";
+
+import { readBalances, readCalls, readTokenMetadata, type BalanceCall } from "./balances.mjs";
+import type { Position, PositionAdapter } from "./positions.mjs";
+
+/**
+ * ======= Solidly-style LP tokens (Aerodrome, Velodrome v2) =======
+ * A wallet's share of a pool is its LP balance, held directly or staked in the pool's gauge, over
+ * the pool's total supply; each underlying amount is that share of the reserve, rounded down.
+ */
+const POOL_ABI = parseAbi([
+  "function metadata() view returns (uint256 dec0, uint256 dec1, uint256 r0, uint256 r1, bool st, address t0, address t1)",
+  "function totalSupply() view returns (uint256)",
+]);
+
+type PoolMetadata = readonly [bigint, bigint, bigint, bigint, boolean, Address, Address];
+
+// metadata() reports decimals as 10**decimals
+const decimalsOf = (scale: bigint) => String(scale).length - 1;
+
+export const solidlyLpAdapter: PositionAdapter = {
+  name: "lp",
+  enabled: (chain) => chain.positions.lp.length > 0,
+  async tokens({ chain }) {
+    return chain.positions.lp.flatMap((p) => (p.gauge ? [p.pool, p.gauge] : [p.pool]));
+  },
+  async read({ client, chain, wallets, blockNumber, chunkSize }) {
+    const pools = chain.positions.lp;
+    const opts = { blockNumber, multicall3: chain.multicall3, chunkSize };
+    const state = await readCalls(
+      client,
+      pools.flatMap((p) => [
+        { address: p.pool, abi: POOL_ABI, functionName: "metadata" },
+        { address: p.pool, abi: POOL_ABI, functionName: "totalSupply" },
+      ]),
+      opts,
+    );
+    const underlying = Array.from(
+      new Set(pools.flatMap((_, i) => {
+        const m = state[2 * i] as PoolMetadata | null;
+        return m ? [m[5], m[6]] : [];
+      })),
+    );
+    const symbols = await readTokenMetadata(client, underlying, opts);
+
+    // LP tokens held directly, then those staked in the gauge
+    const calls: BalanceCall[] = wallets.flatMap((wallet) =>
+      pools.flatMap((p) => [{ wallet, token: p.pool }, ...(p.gauge ? [{ wallet, token: p.gauge }] : [])]),
+    );
+    const balances = await readBalances(client, calls, { ...opts, label: chain.name });
+
+    const out: Position[] = [];
+    let next = 0;
+    for (const wallet of wallets) {
+      for (const [i, p] of pools.entries()) {
+        const held = balances[next++]!;
+        const staked = p.gauge ? balances[next++]! : 0n;
+        const lp = held + staked;
+        const meta = state[2 * i] as PoolMetadata | null;
+        const supply = state[2 * i + 1] as bigint | null;
+        if (lp === 0n) continue;
+        if (!meta || !supply) {
+          console.warn(`[warn] ${chain.name}:${wallet} holds LP ${p.pool} but the pool's reserves can't be read; skipping it`);
+          continue;
+        }
+        const [dec0, dec1, r0, r1, , t0, t1] = meta;
+        for (const [token, reserve, scale] of [[t0, r0, dec0], [t1, r1, dec1]] as const) {
+          out.push({
+            wallet,
+            assetType: "lp",
+            protocol: p.protocol,
+            positionToken: p.pool,
+            symbol: symbols.get(token.toLowerCase())?.symbol ?? "",
+            tokenAddress: token,
+            decimals: decimalsOf(scale),
+            raw: (reserve * lp) / supply,
+            flags: staked > 0n ? ["staked"] : [],
+          });
+        }
+      }
+    }
+    return out;
+  },
+};
@@ -0,0 +1,106 @@
+import { createPublicClient, getAddress, namehash, zeroAddress, type Address, type PublicClient } from "viem";
+import { normalize } from "viem/ens";
+
+import { findKnownChain } from "./chains.mjs";
+import { getChain, type Config } from "./config.mjs";
+import { rpcTransport } from "./transport.mjs";
+
+/**
+ * ======= ENS and Basename resolution for wallet entries =======
+ * `*.base.eth` names resolve through the Basenames registry on Base, every other name through the
+ * ENS registry on mainnet. Both are read directly (registry -> resolver -> addr) rather than via
+ * the universal resolver, which isn't deployed at older blocks.
+ */
+const ENS_REGISTRY = "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e";
+const BASENAMES_REGISTRY = "0xB94704422c2a1E396835A571837Aa5AE53285a95";
+
+const registryAbi = [
+  {
+    type: "function",
+    name: "resolver",
+    stateMutability: "view",
+    inputs: [{ name: "node", type: "bytes32" }],
+    outputs: [{ name: "", type: "address" }],
+  },
+] as const;
+
+const resolverAbi = [
+  {
+    type: "function",
+    name: "addr",
+    stateMutability: "view",
+    inputs: [{ name: "node", type: "bytes32" }],
+    outputs: [{ name: "", type: "address" }],
+  },
+] as const;
+
+/** True for entries that look like a name (`alice.eth`, `bob.base.eth`) rather than an address. */
+export function isWalletName(value: string): boolean {
+  return !/^0x/i.test(value) && /^[^\s:,]+\.[^\s:,.]+$/.test(value);
+}
+
+/** Lowercase and ENS-normalize a name; throws a readable error for invalid characters. */
+export function normalizeName(name: string): string {
+  try {
+    return normalize(name.trim());
+  } catch (e: any) {
+    throw new Error(`Invalid wallet name ${name}: ${e?.shortMessage || e?.message || e}`);
+  }
+}
+
+const nameChain = (name: string) => (name.endsWith(".base.eth") ? "base" : "ethereum");
+
+// Client for the chain a name lives on: the configured chain's archive RPC, else RPC_<CHAIN> or the public endpoint
+function clientFor(config: Config, chainName: "ethereum" | "base"): { client: PublicClient; chainId: number } {
+  const cfg = getChain(config, chainName);
+  const known = findKnownChain(chainName)!;
+  const url = cfg?.rpc || process.env[known.rpcEnv] || known.defaultRpc;
+  return { client: createPublicClient({ transport: rpcTransport(url) }), chainId: known.chainId };
+}
+
+export type ResolveNamesOpts = {
+  // Block to resolve at per chain (e.g. the snapshot block); latest when omitted
+  blockAt?: (client: PublicClient, chainId: number) => Promise<bigint>;
+};
+
+/**
+ * Resolve wallet names to checksummed addresses, keyed by normalized name.
+ * Names without a resolver or address are an error, so a typo never turns into an empty wallet.
+ */
+export async function resolveNames(names: string[], config: Config, opts: ResolveNamesOpts = {}): Promise<Map<string, Address>> {
+  const out = new Map<string, Address>();
+  const clients = new Map<string, { client: PublicClient; blockNumber: bigint | undefined }>();
+  for (const raw of names) {
+    const name = normalizeName(raw);
+    if (out.has(name)) continue;
+    const chainName = nameChain(name);
+    let entry = clients.get(chainName);
+    if (!entry) {
+      const { client, chainId } = clientFor(config, chainName);
+      entry = { client, blockNumber: opts.blockAt ? await opts.blockAt(client, chainId) : undefined };
+      clients.set(chainName, entry);
+    }
+    const { client, blockNumber } = entry;
+    const node = namehash(name);
+    const where = `on ${chainName}${blockNumber != null ? ` at block ${blockNumber}` : ""}`;
+    const resolver = await client.readContract({
+      address: chainName === "base" ? BASENAMES_REGISTRY : ENS_REGISTRY,
+      abi: registryAbi,
+      functionName: "resolver",
+      args: [node],
+      ...(blockNumber != null ? { blockNumber } : {}),
+    });
+    if (resolver === zeroAddress) throw new Error(`Wallet name ${name} is not registered ${where}`);
+    const addr = await client.readContract({
+      address: resolver,
+      abi: resolverAbi,
+      functionName: "addr",
+      args: [node],
+      ...(blockNumber != null ? { blockNumber } : {}),
+    });
+    if (addr === zeroAddress) throw new Error(`Wallet name ${name} has no address set ${where}`);
+    console.log(`${name} -> ${getAddress(addr)} (${where})`);
+    out.set(name, getAddress(addr));
+  }
+  return out;
+}
@@ -0,0 +1,167 @@
+import { createWriteStream, type WriteStream } from "node:fs";
+
+/**
+ * ======= Output writers shared by snapshot and inbound =======
+ * Rows are objects keyed by column name. `csv`, `json` and `ndjson` write them as-is; the
+ * tax-tool templates (`koinly`, `cointracker`) write the transfer each row describes instead.
+ */
+export type OutputFormat = "csv" | "json" | "ndjson" | "koinly" | "cointracker";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["csv", "json", "ndjson", "koinly", "cointracker"];
+
+// Import templates need a transfer per row, so they only fit transfer outputs (inbound, ledger)
+export const TRANSFER_FORMATS: OutputFormat[] = ["koinly", "cointracker"];
+
+export type Row = Record<string, string>;
+
+/** One movement of an asset, in the terms tax tools import. */
+export type TransferRecord = {
+  dateIso: string;
+  direction: "in" | "out" | "self";
+  amount: string;
+  asset: string;
+  fee: string; // "" when the wallet paid none
+  feeAsset: string;
+  usdValue: string;
+  hash: string;
+  description: string;
+};
+
+export type RowWriter = {
+  file: string;
+  bytes: number; // written so far, including whatever the file held when appending
+  write(row: Row, transfer?: TransferRecord): Promise<void>;
+  flush(): Promise<void>;
+  close(): Promise<void>;
+};
+
+export function parseFormat(value: string): OutputFormat {
+  const format = value.trim().toLowerCase() as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`Unknown --format ${value} (expected ${OUTPUT_FORMATS.join("|")})`);
+  }
+  return format;
+}
+
+/** Output path for a base path without extension, e.g. csvs/2024_ledger -> csvs/2024_ledger_koinly.csv. */
+export function outputPath(base: string, format: OutputFormat): string {
+  if (format === "json") return `${base}.json`;
+  if (format === "ndjson") return `${base}.ndjson`;
+  if (format === "csv") return `${base}.csv`;
+  return `${base}_${format}.csv`;
+}
+
+export function csvEscape(value: string): string {
+  if (value == null) return "";
+  const needsQuotes = /[",\n]/.test(value);
+  const escaped = value.replace(/"/g, '""');
+  return needsQuotes ? `"${escaped}"` : escaped;
+}
+
+export function toCsvLine(values: string[]): string {
+  return values.map(csvEscape).join(",");
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Koinly universal CSV template
+const KOINLY_COLUMNS = [
+  "Date", "Sent Amount", "Sent Currency", "Received Amount", "Received Currency", "Fee Amount", "Fee Currency",
+  "Net Worth Amount", "Net Worth Currency", "Label", "Description", "TxHash",
+];
+
+function koinlyRow(t: TransferRecord): string[] | null {
+  const d = new Date(t.dateIso);
+  const date = `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())} ` +
+    `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())} UTC`;
+  const moved = t.direction !== "self" && Number(t.amount) > 0;
+  if (!moved && !t.fee) return null;
+  // A fee with nothing else moving (contract calls, self sends) is its own outgoing cost
+  const sent = t.direction === "out" && moved ? [t.amount, t.asset] : !moved ? [t.fee, t.feeAsset] : ["", ""];
+  const received = t.direction === "in" && moved ? [t.amount, t.asset] : ["", ""];
+  const fee = moved && t.fee ? [t.fee, t.feeAsset] : ["", ""];
+  return [
+    date, ...sent, ...received, ...fee, moved ? t.usdValue : "", moved && t.usdValue ? "USD" : "",
+    moved ? "" : "cost", t.description, t.hash,
+  ];
+}
+
+// CoinTracker CSV import template
+const COINTRACKER_COLUMNS = [
+  "Date", "Received Quantity", "Received Currency", "Sent Quantity", "Sent Currency", "Fee Amount", "Fee Currency", "Tag",
+];
+
+function cointrackerRow(t: TransferRecord): string[] | null {
+  const d = new Date(t.dateIso);
+  const date = `${pad(d.getUTCMonth() + 1)}/${pad(d.getUTCDate())}/${d.getUTCFullYear()} ` +
+    `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}`;
+  const moved = t.direction !== "self" && Number(t.amount) > 0;
+  if (!moved && !t.fee) return null;
+  const received = t.direction === "in" && moved ? [t.amount, t.asset] : ["", ""];
+  const sent = t.direction === "out" && moved ? [t.amount, t.asset] : !moved ? [t.fee, t.feeAsset] : ["", ""];
+  const fee = moved && t.fee ? [t.fee, t.feeAsset] : ["", ""];
+  return [date, ...received, ...sent, ...fee, ""];
+}
+
+async function writeChunk(stream: WriteStream, text: string): Promise<void> {
+  await new Promise<void>((resolve) => {
+    if (stream.write(text)) resolve();
+    else stream.once("drain", resolve);
+  });
+}
+
+/**
+ * Open a writer for `columns` in `format`. With `append` (resuming a line-based file) the header
+ * is skipped and `bytes` starts at `startBytes`; JSON can't be appended to.
+ */
+export function openRowWriter(
+  file: string,
+  format: OutputFormat,
+  columns: string[],
+  opts: { append?: boolean; startBytes?: number } = {},
+): RowWriter {
+  if (opts.append && format === "json") throw new Error("--format=json output can't be appended to; use ndjson or csv");
+  const stream = createWriteStream(file, { encoding: "utf8", flags: opts.append ? "a" : "w" });
+  let rows = 0;
+  const writer: RowWriter = {
+    file,
+    bytes: opts.startBytes ?? 0,
+    async write(row, transfer) {
+      let text: string | null;
+      if (format === "csv") {
+        text = toCsvLine(columns.map((c) => row[c] ?? "")) + "\n";
+      } else if (format === "ndjson") {
+        text = JSON.stringify(row) + "\n";
+      } else if (format === "json") {
+        text = (rows === 0 ? "\n  " : ",\n  ") + JSON.stringify(row);
+      } else {
+        if (!transfer) throw new Error(`--format=${format} needs transfer rows (inbound or ledger output)`);
+        const cells = format === "koinly" ? koinlyRow(transfer) : cointrackerRow(transfer);
+        text = cells ? toCsvLine(cells) + "\n" : null;
+      }
+      if (text == null) return;
+      rows += 1;
+      writer.bytes += Buffer.byteLength(text);
+      await writeChunk(stream, text);
+    },
+    async flush() {
+      await new Promise<void>((resolve, reject) => stream.write("", (e) => (e ? reject(e) : resolve())));
+    },
+    async close() {
+      if (format === "json") await writeChunk(stream, rows === 0 ? "]\n" : "\n]\n");
+      await new Promise<void>((resolve) => stream.end(resolve));
+    },
+  };
+
+  if (!opts.append) {
+    const header = format === "csv" ? toCsvLine(columns) + "\n"
+      : format === "koinly" ? toCsvLine(KOINLY_COLUMNS) + "\n"
+      : format === "cointracker" ? toCsvLine(COINTRACKER_COLUMNS) + "\n"
+      : format === "json" ? "[" : "";
+    if (header) {
+      writer.bytes += Buffer.byteLength(header);
+      stream.write(header);
+    }
+  }
+  return writer;
+}
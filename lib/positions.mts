@@ -0,0 +1,84 @@
+import type { Address, createPublicClient } from "viem";
+
+import { aaveV3Adapter } from "./aave.mjs";
+import type { ChainCfg } from "./config.mjs";
+import { solidlyLpAdapter } from "./lp.mjs";
+
+/**
+ * ======= Protocol positions for snapshots =======
+ * An adapter reads what wallets hold inside one protocol at a block and reports it in underlying
+ * tokens: a supplied USDC balance rather than aUSDC, the two tokens behind an LP share. Debt
+ * comes back negative so totals are net.
+ */
+type Client = ReturnType<typeof createPublicClient>;
+
+export type PositionAssetType = "lending" | "lp";
+
+export type Position = {
+  wallet: Address;
+  assetType: PositionAssetType;
+  protocol: string; // e.g. aave-v3, aerodrome
+  positionToken: string; // the token the wallet actually holds (aToken, debt token, LP token)
+  symbol: string; // underlying token
+  tokenAddress: string;
+  decimals: number;
+  raw: bigint; // underlying base units; negative for debt
+  flags: string[]; // debt, staked
+};
+
+export type PositionContext = {
+  client: Client;
+  chain: ChainCfg;
+  wallets: Address[];
+  blockNumber: bigint;
+  chunkSize: number; // calls per multicall
+};
+
+export type PositionAdapter = {
+  name: string;
+  /** Whether the chain's config gives the adapter anything to read. */
+  enabled(chain: ChainCfg): boolean;
+  /** Every token the adapter reports through its underlyings (aTokens, debt tokens, LP and gauge tokens). */
+  tokens(ctx: Omit<PositionContext, "wallets">): Promise<Address[]>;
+  read(ctx: PositionContext): Promise<Position[]>;
+};
+
+export const POSITION_ADAPTERS: PositionAdapter[] = [aaveV3Adapter, solidlyLpAdapter];
+
+/**
+ * Non-zero positions from every adapter enabled on the chain. An adapter that fails (e.g. the
+ * protocol wasn't deployed yet at the block) is skipped with a warning.
+ */
+export async function readPositions(ctx: PositionContext): Promise<Position[]> {
+  const out: Position[] = [];
+  for (const adapter of POSITION_ADAPTERS.filter((a) => a.enabled(ctx.chain))) {
+    try {
+      out.push(...(await adapter.read(ctx)).filter((p) => p.raw !== 0n));
+    } catch (e: any) {
+      console.warn(
+        `[warn] ${adapter.name} positions on ${ctx.chain.name} at block ${ctx.blockNumber} unavailable ` +
+          `(${e?.shortMessage || e?.message || String(e)}); skipping them`,
+      );
+    }
+  }
+  return out;
+}
+
+/**
+ * Lowercased position tokens of every adapter enabled on the chain, so token discovery can leave
+ * them to the position rows instead of counting the same holding twice.
+ */
+export async function positionTokens(ctx: Omit<PositionContext, "wallets">): Promise<Set<string>> {
+  const out = new Set<string>();
+  for (const adapter of POSITION_ADAPTERS.filter((a) => a.enabled(ctx.chain))) {
+    try {
+      for (const t of await adapter.tokens(ctx)) out.add(t.toLowerCase());
+    } catch (e: any) {
+      console.warn(
+        `[warn] ${adapter.name} position tokens on ${ctx.chain.name} at block ${ctx.blockNumber} unavailable ` +
+          `(${e?.shortMessage || e?.message || String(e)}); discovery may report them as plain tokens`,
+      );
+    }
+  }
+  return out;
+}
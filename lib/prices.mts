@@ -0,0 +1,183 @@
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+
+import { cacheGet, cacheSet, isFinalizedTs } from "./cache.mjs";
+import type { PricesCfg } from "./config.mjs";
+import { parseCsv } from "./csv.mjs";
+import { httpRequest } from "./transport.mjs";
+
+/** ======= Price providers: CoinGecko, local price file, stablecoin pegs ======= */
+export type PriceSourceName = "coingecko" | "file" | "pegged";
+
+export const PRICE_SOURCES: PriceSourceName[] = ["coingecko", "file", "pegged"];
+
+/** What we know about the asset being priced; providers match on whichever fields they use. */
+export type PriceQuery = {
+  dateIso: string;
+  symbol: string;
+  coinId: string | null; // CoinGecko id from the config, when known
+  address: string | null; // token contract; null for the native asset
+  listed: boolean; // the native asset or a token from the config, so its symbol can be trusted
+};
+
+export type PriceQuote = { usd: number; source: PriceSourceName };
+
+export type PriceProvider = {
+  name: PriceSourceName;
+  getUsd(q: PriceQuery): Promise<number | null>;
+};
+
+export type Pricer = (q: PriceQuery) => Promise<PriceQuote | null>;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// CoinGecko wants DD-MM-YYYY
+function coingeckoDate(dateIso: string): string {
+  const d = new Date(dateIso);
+  const dd = String(d.getUTCDate()).padStart(2, "0");
+  const mm = String(d.getUTCMonth() + 1).padStart(2, "0");
+  return `${dd}-${mm}-${d.getUTCFullYear()}`;
+}
+
+// CoinGecko GET, paced by the `coingecko` limits (free: ~10-30/min), retrying other failures
+async function coingeckoGet(url: string): Promise<any> {
+  let lastErr: unknown;
+  for (let i = 0; i < 3; i++) {
+    try {
+      return await httpRequest({ method: "GET", url, timeoutMs: 15000 });
+    } catch (e) {
+      lastErr = e;
+      await sleep(600 * Math.pow(2, i));
+    }
+  }
+  throw lastErr;
+}
+
+/** CoinGecko `/coins/{id}/history` by the config's coin id, cached in memory and on disk. */
+export function coingeckoProvider(): PriceProvider {
+  const memo = new Map<string, number | null>();
+  return {
+    name: "coingecko",
+    async getUsd(q) {
+      if (!q.coinId) return null;
+      const dateStr = coingeckoDate(q.dateIso);
+      const key = `coingecko|${q.coinId}|${dateStr}`;
+      if (memo.has(key)) return memo.get(key)!;
+      const onDisk = await cacheGet<number>("prices", key);
+      if (onDisk !== undefined) {
+        memo.set(key, onDisk);
+        return onDisk;
+      }
+      let price: number | null = null;
+      try {
+        const data = await coingeckoGet(
+          `https://api.coingecko.com/api/v3/coins/${q.coinId}/history?date=${dateStr}&localization=false`,
+        );
+        const usd = data?.market_data?.current_price?.usd;
+        if (typeof usd === "number") price = usd;
+      } catch {
+        price = null;
+      }
+      memo.set(key, price);
+      if (price != null && isFinalizedTs(Math.floor(Date.parse(q.dateIso) / 1000))) {
+        await cacheSet("prices", key, price);
+      }
+      return price;
+    },
+  };
+}
+
+/**
+ * Prices from a local file of (date, asset, price) rows — CSV with a header row, or a JSON
+ * array of objects. `asset` may be a token address, a CoinGecko id or a symbol; dates are
+ * YYYY-MM-DD (UTC) and must match the priced day exactly. Symbols only match the native asset
+ * and config tokens, since any discovered token can call itself USDC.
+ */
+export async function priceFileProvider(path: string): Promise<PriceProvider> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (e: any) {
+    throw new Error(`Cannot read price file ${path}: ${e?.message || String(e)}`);
+  }
+
+  let rows: { date: unknown; asset: unknown; price: unknown }[];
+  if (extname(path).toLowerCase() === ".json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (e: any) {
+      throw new Error(`Cannot parse price file ${path}: ${e?.message || String(e)}`);
+    }
+    if (!Array.isArray(parsed)) throw new Error(`Price file ${path} must be a JSON array of {date, asset, price}`);
+    rows = parsed;
+  } else {
+    rows = parseCsv(text) as typeof rows;
+    const missing = ["date", "asset", "price"].filter((c) => rows.length > 0 && !(c in rows[0]!));
+    if (missing.length > 0) throw new Error(`Price file ${path} is missing column(s): ${missing.join(", ")}`);
+  }
+
+  const prices = new Map<string, number>();
+  for (const [i, r] of rows.entries()) {
+    const date = String(r.date ?? "").slice(0, 10);
+    const asset = String(r.asset ?? "").trim().toLowerCase();
+    const price = Number(r.price);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !asset || !Number.isFinite(price)) {
+      throw new Error(`Price file ${path}: row ${i + 1} needs date (YYYY-MM-DD), asset and a numeric price`);
+    }
+    prices.set(`${date}|${asset}`, price);
+  }
+
+  return {
+    name: "file",
+    async getUsd(q) {
+      const date = new Date(q.dateIso).toISOString().slice(0, 10);
+      for (const asset of [q.address, q.coinId, q.listed ? q.symbol : null]) {
+        if (!asset) continue;
+        const price = prices.get(`${date}|${asset.toLowerCase()}`);
+        if (price != null) return price;
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * Fixed prices for pegged assets, keyed by CoinGecko id or token address (case-insensitive).
+ * Never by symbol: any token can call itself USDC, and spam tokens in tokentx history do.
+ */
+export function peggedProvider(pegs: Record<string, number>): PriceProvider {
+  const byKey = new Map(Object.entries(pegs).map(([k, v]) => [k.toLowerCase(), v]));
+  return {
+    name: "pegged",
+    async getUsd(q) {
+      for (const key of [q.address, q.coinId]) {
+        const price = key ? byKey.get(key.toLowerCase()) : undefined;
+        if (price != null) return price;
+      }
+      return null;
+    },
+  };
+}
+
+/** Try providers in priority order; the first price wins and is reported with its source. */
+export function createPricer(providers: PriceProvider[]): Pricer {
+  return async (q) => {
+    for (const p of providers) {
+      const usd = await p.getUsd(q);
+      if (usd != null) return { usd, source: p.name };
+    }
+    return null;
+  };
+}
+
+/** Build the pricer from the config's `prices` section (order, file, pegs). */
+export async function pricerFromConfig(cfg: PricesCfg): Promise<Pricer> {
+  const providers: PriceProvider[] = [];
+  for (const name of cfg.order) {
+    if (name === "coingecko") providers.push(coingeckoProvider());
+    else if (name === "pegged") providers.push(peggedProvider(cfg.pegged));
+    else if (name === "file" && cfg.file) providers.push(await priceFileProvider(cfg.file));
+  }
+  return createPricer(providers);
+}
@@ -0,0 +1,56 @@
+import type { LedgerEntry } from "./ledger.mjs";
+
+/**
+ * ======= Balance reconciliation =======
+ * Per wallet/chain/asset: opening + inflows - outflows - gas should equal closing. Everything is
+ * summed in base units (wei, token units) so a match is exact rather than within a rounding error.
+ */
+export type Flow = {
+  symbol: string;
+  tokenAddress: string; // "" for the native asset
+  decimals: number;
+  inflow: bigint;
+  outflow: bigint;
+  gas: bigint; // native asset only
+  transfers: number;
+};
+
+export type Reconciliation = {
+  expected: bigint;
+  discrepancy: bigint; // closing - expected; positive means more on chain than the flows explain
+  ok: boolean;
+};
+
+/** Asset key for a token address ("" = native). */
+export const assetKeyOf = (tokenAddress: string) => tokenAddress.toLowerCase() || "native";
+
+/**
+ * Sum one wallet's ledger entries per asset. Self transfers move nothing but their gas.
+ * Entries must already be deduplicated.
+ */
+export function sumFlows(entries: LedgerEntry[], native: { symbol: string; decimals: number }): Map<string, Flow> {
+  const flows = new Map<string, Flow>();
+  const flowFor = (tokenAddress: string, symbol: string, decimals: number) => {
+    const key = assetKeyOf(tokenAddress);
+    let f = flows.get(key);
+    if (!f) {
+      f = { symbol, tokenAddress: tokenAddress.toLowerCase(), decimals, inflow: 0n, outflow: 0n, gas: 0n, transfers: 0 };
+      flows.set(key, f);
+    }
+    return f;
+  };
+  for (const e of entries) {
+    const f = flowFor(e.tokenAddress, e.symbol, e.decimals);
+    f.transfers += 1;
+    if (e.direction === "in") f.inflow += e.amountRaw;
+    else if (e.direction === "out") f.outflow += e.amountRaw;
+    if (e.feeRaw > 0n) flowFor("", native.symbol, native.decimals).gas += e.feeRaw;
+  }
+  return flows;
+}
+
+export function reconcile(opening: bigint, closing: bigint, flow: Pick<Flow, "inflow" | "outflow" | "gas">): Reconciliation {
+  const expected = opening + flow.inflow - flow.outflow - flow.gas;
+  const discrepancy = closing - expected;
+  return { expected, discrepancy, ok: discrepancy === 0n };
+}
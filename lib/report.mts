@@ -0,0 +1,214 @@
+import { Dec, ZERO } from "./amounts.mjs";
+import type { Row } from "./output.mjs";
+
+/**
+ * ======= One-page reports from snapshot, inbound and ledger CSVs =======
+ * Totals per wallet, chain, asset, counterparty and calendar month: row count, the amount in asset
+ * units (only when a bucket holds a single asset) and USD. Ledger amounts are net flows, signed by
+ * direction. Balances don't add up over time, so snapshot series report the last date (the last
+ * date of each month for the month table).
+ */
+export type ReportDimension = "wallet" | "chain" | "asset" | "counterparty" | "month";
+
+export const REPORT_DIMENSIONS: ReportDimension[] = ["wallet", "chain", "asset", "counterparty", "month"];
+
+export type ReportKind = "snapshot" | "inbound" | "ledger";
+
+export type ReportItem = {
+  date: string; // ISO timestamp
+  wallet: string;
+  walletLabel: string; // label, else the ENS name / Basename, else ""
+  chain: string;
+  asset: string;
+  counterparty: string; // "" for balances
+  amount: string; // exact, signed for ledger sends
+  usd: string | null; // null when unpriced
+};
+
+export type ReportLine = {
+  key: string;
+  label: string;
+  rows: number;
+  asset: string; // "" when the bucket mixes assets
+  amount: string; // "" when the bucket mixes assets
+  usd: string;
+  unpriced: number;
+};
+
+export type ReportTable = { dimension: ReportDimension; lines: ReportLine[] };
+
+export const REPORT_COLUMNS = ["dimension", "key", "label", "rows", "asset", "amount", "usd_value", "unpriced_rows"];
+
+/** Which output a CSV is, from its columns. */
+export function reportKind(header: Record<string, string>, file: string): ReportKind {
+  if ("direction" in header) return "ledger";
+  if ("balance" in header) return "snapshot";
+  if ("value_eth" in header || "value" in header) return "inbound";
+  throw new Error(`${file} is not a snapshot, inbound or ledger CSV (no balance, value, value_eth or direction column)`);
+}
+
+/** Report items from the rows of one output CSV; `nativeSymbol` names the asset of native inbound rows. */
+export function reportItems(rows: Row[], kind: ReportKind, nativeSymbol: (chain: string) => string): ReportItem[] {
+  return rows.filter((r) => r.date_iso && r.date_iso !== "TOTAL").map((r) => {
+    const base = {
+      date: r.date_iso!,
+      wallet: r.wallet || "",
+      walletLabel: r.wallet_label || r.wallet_name || "",
+      chain: r.chain || "",
+      usd: r.usd_value || null,
+    };
+    if (kind === "snapshot") {
+      return { ...base, asset: r.symbol || "", counterparty: "", amount: r.balance || "0" };
+    }
+    if (kind === "inbound") {
+      const token = "value" in r;
+      return {
+        ...base,
+        asset: token ? r.token_symbol || "" : nativeSymbol(base.chain),
+        counterparty: r.from || "",
+        amount: (token ? r.value : r.value_eth) || "0",
+      };
+    }
+    const sign = r.direction === "out" ? -1 : r.direction === "in" ? 1 : 0;
+    const signed = (v: string) => (sign === 0 ? "0" : new Dec(v || "0").times(sign).toFixed());
+    return {
+      ...base,
+      asset: r.asset || "",
+      counterparty: r.counterparty || "",
+      amount: signed(r.amount || "0"),
+      usd: r.usd_value ? signed(r.usd_value) : null,
+    };
+  });
+}
+
+type Bucket = { label: string; rows: number; assets: Set<string>; amount: Dec; usd: Dec; unpriced: number };
+
+const keyOf = (item: ReportItem, dim: ReportDimension): string =>
+  dim === "month" ? item.date.slice(0, 7) : dim === "wallet" ? item.wallet.toLowerCase() : item[dim];
+
+/**
+ * Build one table per dimension. Tables other than month are ordered by absolute USD, largest
+ * first, and keep the `top` largest keys; the rest fold into one `(other N)` line.
+ */
+export function buildReport(items: ReportItem[], kind: ReportKind, opts: { top: number }): ReportTable[] {
+  // Snapshot series: the last date overall, and the last date within each month
+  const lastDate = items.reduce((max, i) => (i.date > max ? i.date : max), "");
+  const lastInMonth = new Map<string, string>();
+  for (const i of items) {
+    const m = i.date.slice(0, 7);
+    if (i.date > (lastInMonth.get(m) ?? "")) lastInMonth.set(m, i.date);
+  }
+
+  const tables: ReportTable[] = [];
+  for (const dimension of REPORT_DIMENSIONS) {
+    if (dimension === "counterparty" && kind === "snapshot") continue;
+    const buckets = new Map<string, Bucket>();
+    for (const item of items) {
+      if (kind === "snapshot") {
+        const last = dimension === "month" ? lastInMonth.get(item.date.slice(0, 7)) : lastDate;
+        if (item.date !== last) continue;
+      }
+      const key = keyOf(item, dimension) || "(none)";
+      const b = buckets.get(key) ?? { label: "", rows: 0, assets: new Set(), amount: ZERO, usd: ZERO, unpriced: 0 };
+      buckets.set(key, b);
+      if (dimension === "wallet" && !b.label) b.label = item.walletLabel;
+      b.rows += 1;
+      b.assets.add(item.asset);
+      b.amount = b.amount.plus(item.amount);
+      if (item.usd == null) b.unpriced += 1;
+      else b.usd = b.usd.plus(item.usd);
+    }
+
+    let entries = Array.from(buckets.entries());
+    if (dimension === "month") {
+      entries.sort(([a], [b]) => a.localeCompare(b));
+    } else {
+      entries.sort(([ka, a], [kb, b]) => b.usd.abs().cmp(a.usd.abs()) || b.rows - a.rows || ka.localeCompare(kb));
+      if (entries.length > opts.top) {
+        const rest = entries.slice(opts.top);
+        const other: Bucket = { label: "", rows: 0, assets: new Set(), amount: ZERO, usd: ZERO, unpriced: 0 };
+        for (const [, b] of rest) {
+          other.rows += b.rows;
+          for (const a of b.assets) other.assets.add(a);
+          other.amount = other.amount.plus(b.amount);
+          other.usd = other.usd.plus(b.usd);
+          other.unpriced += b.unpriced;
+        }
+        entries = [...entries.slice(0, opts.top), [`(other ${rest.length})`, other]];
+      }
+    }
+    tables.push({
+      dimension,
+      lines: entries.map(([key, b]) => {
+        const single = b.assets.size === 1;
+        return {
+          key,
+          label: b.label,
+          rows: b.rows,
+          asset: single ? Array.from(b.assets)[0]! : "",
+          amount: single ? b.amount.toFixed() : "",
+          usd: b.usd.toFixed(2),
+          unpriced: b.unpriced,
+        };
+      }),
+    });
+  }
+  return tables;
+}
+
+/** Flat rows for the report CSV. */
+export function reportRows(tables: ReportTable[]): Row[] {
+  return tables.flatMap((t) =>
+    t.lines.map((l) => ({
+      dimension: t.dimension,
+      key: l.key,
+      label: l.label,
+      rows: String(l.rows),
+      asset: l.asset,
+      amount: l.amount,
+      usd_value: l.usd,
+      unpriced_rows: String(l.unpriced),
+    })),
+  );
+}
+
+const TABLE_HEADER = ["", "rows", "asset", "amount", "usd", "unpriced"];
+
+const tableCells = (t: ReportTable): string[][] =>
+  t.lines.map((l) => [
+    l.label ? `${l.label} (${l.key})` : l.key,
+    String(l.rows),
+    l.asset,
+    l.amount,
+    l.usd,
+    l.unpriced ? String(l.unpriced) : "",
+  ]);
+
+/** A table as aligned text lines; the first column is left-aligned, the rest right-aligned. */
+export function formatTable(header: string[], cells: string[][]): string[] {
+  const widths = header.map((h, i) => Math.max(h.length, ...cells.map((c) => (c[i] ?? "").length)));
+  const line = (c: string[]) =>
+    c.map((v, i) => (i === 0 ? v.padEnd(widths[i]!) : v.padStart(widths[i]!))).join("  ").trimEnd();
+  return [line(header), widths.map((w) => "-".repeat(w)).join("  "), ...cells.map(line)];
+}
+
+/** Print every table to the console. */
+export function printReport(tables: ReportTable[]): void {
+  for (const t of tables) {
+    console.log(`\nBy ${t.dimension}:`);
+    for (const l of formatTable([t.dimension, ...TABLE_HEADER.slice(1)], tableCells(t))) console.log(`  ${l}`);
+  }
+}
+
+const mdCell = (v: string) => v.replace(/\|/g, "\\|");
+
+/** The report as a Markdown page: a title, the sources, then one table per dimension. */
+export function reportMarkdown(title: string, sources: string[], tables: ReportTable[]): string {
+  const out = [`# ${title}`, "", `Sources: ${sources.map((s) => `\`${s}\``).join(", ")}`];
+  for (const t of tables) {
+    out.push("", `## By ${t.dimension}`, "");
+    out.push(`| ${t.dimension} | rows | asset | amount | usd | unpriced |`, "|---|---:|---|---:|---:|---:|");
+    for (const c of tableCells(t)) out.push(`| ${c.map(mdCell).join(" | ")} |`);
+  }
+  return out.join("\n") + "\n";
+}
@@ -0,0 +1,208 @@
+/**
+ * ======= Per-provider request scheduling =======
+ * Every HTTP request waits for a slot from its provider's token bucket: `rps` tokens a second up
+ * to `burst` saved, and at most `maxInFlight` requests open at once. Providers are Etherscan,
+ * CoinGecko, or the request's host for everything else (RPC endpoints, webhook receivers). A 429
+ * pauses the whole provider for its Retry-After (or a backoff) and the request is retried, so
+ * concurrent callers slow down together instead of each hammering the limit. Counts per provider
+ * feed the throughput report commands print at the end.
+ */
+export type ProviderLimits = {
+  rps: number; // sustained requests per second
+  burst: number; // requests that may go out back to back after a quiet spell
+  maxInFlight: number; // open requests at once
+};
+
+export type LimitsCfg = Record<string, Partial<ProviderLimits>>;
+
+// Free tiers: Etherscan allows 5/s, CoinGecko's public API ~10/min; other hosts get a modest default
+export const DEFAULT_LIMITS: Record<string, ProviderLimits> = {
+  etherscan: { rps: 4.5, burst: 1, maxInFlight: 4 },
+  coingecko: { rps: 1 / 6, burst: 1, maxInFlight: 1 },
+  default: { rps: 10, burst: 10, maxInFlight: 8 },
+};
+
+const MAX_429_RETRIES = 4;
+
+export type ProviderStats = {
+  provider: string;
+  requests: number;
+  throttled: number; // 429 answers
+  waitedMs: number; // total time requests spent queued
+  peakInFlight: number;
+  firstAt: number;
+  lastAt: number;
+};
+
+type Bucket = {
+  limits: ProviderLimits;
+  tokens: number;
+  refilledAt: number;
+  pausedUntil: number;
+  inFlight: number;
+  queue: (() => void)[];
+  timer: ReturnType<typeof setTimeout> | null;
+  warned: boolean;
+  stats: ProviderStats;
+};
+
+let LIMITS: LimitsCfg = {};
+const buckets = new Map<string, Bucket>();
+
+/** Apply the config's `limits:` over the defaults; resets the buckets and their counts. */
+export function configureLimits(limits: LimitsCfg): void {
+  LIMITS = limits;
+  for (const b of buckets.values()) if (b.timer) clearTimeout(b.timer);
+  buckets.clear();
+}
+
+/** Limits for a provider: its own entry, else `default`, each over the built-in values. */
+export function limitsFor(provider: string): ProviderLimits {
+  const base = DEFAULT_LIMITS[provider] ?? { ...DEFAULT_LIMITS.default!, ...LIMITS.default };
+  return { ...base, ...LIMITS[provider] };
+}
+
+/** The provider a URL's requests count against. */
+export function providerOf(url: string): string {
+  const host = new URL(url).hostname.toLowerCase();
+  if (host === "etherscan.io" || host.endsWith(".etherscan.io")) return "etherscan";
+  if (host === "coingecko.com" || host.endsWith(".coingecko.com")) return "coingecko";
+  return host;
+}
+
+function bucketFor(provider: string): Bucket {
+  let b = buckets.get(provider);
+  if (!b) {
+    const limits = limitsFor(provider);
+    b = {
+      limits,
+      tokens: limits.burst,
+      refilledAt: Date.now(),
+      pausedUntil: 0,
+      inFlight: 0,
+      queue: [],
+      timer: null,
+      warned: false,
+      stats: { provider, requests: 0, throttled: 0, waitedMs: 0, peakInFlight: 0, firstAt: 0, lastAt: 0 },
+    };
+    buckets.set(provider, b);
+  }
+  return b;
+}
+
+// Hand out slots in arrival order while tokens and in-flight room last; otherwise wake up when
+// the next token is due (a finishing request pumps again for in-flight room)
+function pump(b: Bucket): void {
+  while (b.queue.length > 0) {
+    const now = Date.now();
+    b.tokens = Math.min(b.limits.burst, b.tokens + ((now - b.refilledAt) / 1000) * b.limits.rps);
+    b.refilledAt = now;
+    if (b.inFlight >= b.limits.maxInFlight) return;
+    const wait = Math.max(b.pausedUntil - now, b.tokens >= 1 ? 0 : ((1 - b.tokens) / b.limits.rps) * 1000);
+    if (wait > 0) {
+      b.timer ??= setTimeout(() => {
+        b.timer = null;
+        pump(b);
+      }, Math.ceil(wait));
+      return;
+    }
+    b.tokens -= 1;
+    b.inFlight += 1;
+    b.stats.peakInFlight = Math.max(b.stats.peakInFlight, b.inFlight);
+    b.queue.shift()!();
+  }
+}
+
+function acquire(b: Bucket): Promise<void> {
+  return new Promise((resolve) => {
+    b.queue.push(resolve);
+    pump(b);
+  });
+}
+
+function release(b: Bucket): void {
+  b.inFlight -= 1;
+  pump(b);
+}
+
+/** Retry-After as milliseconds: delta seconds or an HTTP date; null when absent or unreadable. */
+export function retryAfterMs(value: string | undefined, now = Date.now()): number | null {
+  if (!value) return null;
+  const secs = Number(value);
+  if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+  const at = Date.parse(value);
+  return Number.isNaN(at) ? null : Math.max(0, at - now);
+}
+
+/**
+ * Send one request through `provider`'s bucket. `send` resolves with the response whatever its
+ * status; 429s pause the provider and are retried after the pause unless `retry429` is false (for
+ * callers with their own retries). Unpaced calls (replays) go straight through, uncounted.
+ */
+export async function scheduled<R extends { status: number; headers: Record<string, string> }>(
+  provider: string,
+  send: () => Promise<R>,
+  opts: { paced?: boolean; retry429?: boolean } = {},
+): Promise<R> {
+  if (opts.paced === false) return send();
+  const b = bucketFor(provider);
+  for (let attempt = 0; ; attempt++) {
+    const queuedAt = Date.now();
+    await acquire(b);
+    const started = Date.now();
+    b.stats.waitedMs += started - queuedAt;
+    b.stats.requests += 1;
+    if (!b.stats.firstAt) b.stats.firstAt = started;
+    let res: R;
+    try {
+      res = await send();
+    } finally {
+      b.stats.lastAt = Date.now();
+      release(b);
+    }
+    if (res.status !== 429) return res;
+    b.stats.throttled += 1;
+    const pause = retryAfterMs(res.headers["retry-after"]) ?? 1000 * 2 ** attempt;
+    b.pausedUntil = Math.max(b.pausedUntil, Date.now() + pause);
+    b.tokens = 0;
+    if (!b.warned) {
+      b.warned = true;
+      console.warn(`[warn] ${provider} rate limit hit (429); pausing ${Math.ceil(pause / 1000)}s (lower its rps in the config's limits)`);
+    }
+    if (opts.retry429 === false || attempt >= MAX_429_RETRIES) return res;
+  }
+}
+
+/** Request counts per provider so far, busiest first. */
+export function throughputStats(): ProviderStats[] {
+  return Array.from(buckets.values()).map((b) => ({ ...b.stats })).filter((s) => s.requests > 0)
+    .sort((a, b) => b.requests - a.requests || a.provider.localeCompare(b.provider));
+}
+
+/** Print requests, rate, 429s and queueing per provider (nothing when no request went out). */
+export function printThroughput(stats = throughputStats()): void {
+  if (stats.length === 0) return;
+  console.log("\nRequests by provider:");
+  for (const s of stats) {
+    const secs = Math.max(0.001, (s.lastAt - s.firstAt) / 1000);
+    const limits = limitsFor(s.provider);
+    console.log(
+      `  ${s.provider}: ${s.requests} requests in ${secs.toFixed(1)}s (${(s.requests / secs).toFixed(2)}/s, limit ${+limits.rps.toFixed(2)}/s)` +
+      ` | ${s.throttled} throttled | avg wait ${Math.round(s.waitedMs / s.requests)}ms | peak ${s.peakInFlight} in flight`,
+    );
+  }
+}
+
+/** `fn` over `items` with at most `limit` running at once; results in item order. */
+export async function mapConcurrent<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const out = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      out[i] = await fn(items[i]!, i);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return out;
+}
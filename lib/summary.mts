@@ -0,0 +1,96 @@
+import { Dec } from "./amounts.mjs";
+import { openRowWriter, type Row } from "./output.mjs";
+
+/**
+ * ======= Grouped totals per wallet group, chain and asset =======
+ * Every output row adds to one bucket per dimension. A wallet in several groups counts in each of
+ * them, so group totals can add up to more than the chain totals. Amounts are only summed per
+ * asset; group and chain buckets mix assets and carry USD only. Sums are exact (decimal strings).
+ */
+export type SummaryDimension = "group" | "chain" | "asset";
+
+const DIMENSIONS: SummaryDimension[] = ["group", "chain", "asset"];
+
+export const UNGROUPED = "(ungrouped)";
+
+export type SummaryItem = {
+  period: string; // snapshot date, or the inbound window
+  chain: string;
+  asset: string;
+  groups: string[];
+  amount: string; // the row's exact amount
+  usd: string | null; // the row's rounded USD value; null when the row is unpriced
+};
+
+type Bucket = { rows: number; amount: string; usd: string; unpriced: number };
+
+// Plain object keyed by `period|dimension|key` so it can live in a checkpoint
+export type Summary = Record<string, Bucket>;
+
+export const SUMMARY_COLUMNS = ["period", "dimension", "key", "rows", "amount", "usd_value", "unpriced_rows"];
+
+export function addToSummary(summary: Summary, item: SummaryItem): void {
+  const keys: Record<SummaryDimension, string[]> = {
+    group: item.groups.length > 0 ? item.groups : [UNGROUPED],
+    chain: [item.chain],
+    asset: [item.asset],
+  };
+  for (const dim of DIMENSIONS) {
+    for (const key of keys[dim]) {
+      const id = `${item.period}|${dim}|${key}`;
+      const b = (summary[id] ??= { rows: 0, amount: "0", usd: "0", unpriced: 0 });
+      b.rows += 1;
+      b.amount = new Dec(b.amount).plus(item.amount).toFixed();
+      if (item.usd == null) b.unpriced += 1;
+      else b.usd = new Dec(b.usd).plus(item.usd).toFixed();
+    }
+  }
+}
+
+/** Summary rows ordered by period, then dimension, then key. */
+export function summaryRows(summary: Summary): Row[] {
+  return Object.entries(summary)
+    .map(([id, b]) => {
+      const [period = "", dimension = "", ...rest] = id.split("|");
+      return { period, dimension, key: rest.join("|"), b };
+    })
+    .sort((x, y) =>
+      x.period.localeCompare(y.period) ||
+      DIMENSIONS.indexOf(x.dimension as SummaryDimension) - DIMENSIONS.indexOf(y.dimension as SummaryDimension) ||
+      x.key.localeCompare(y.key),
+    )
+    .map(({ period, dimension, key, b }) => ({
+      period,
+      dimension,
+      key,
+      rows: String(b.rows),
+      amount: dimension === "asset" ? new Dec(b.amount).toFixed() : "",
+      usd_value: new Dec(b.usd).toFixed(2),
+      unpriced_rows: String(b.unpriced),
+    }));
+}
+
+/** Print summary rows as one small table per period and dimension. */
+export function printSummary(rows: Row[]): void {
+  let current = "";
+  const width = Math.max(0, ...rows.map((r) => (r.key ?? "").length));
+  for (const r of rows) {
+    const head = `${r.period} by ${r.dimension}`;
+    if (head !== current) {
+      console.log(`\n${head}:`);
+      current = head;
+    }
+    const amount = r.amount ? ` | ${r.amount}` : "";
+    const unpriced = r.unpriced_rows !== "0" ? ` (${r.unpriced_rows} unpriced)` : "";
+    console.log(`  ${(r.key ?? "").padEnd(width)} | ${r.rows} rows${amount} | $${r.usd_value}${unpriced}`);
+  }
+}
+
+/** Write summary rows next to an output as `<base>_summary.csv`; returns the path. */
+export async function writeSummary(base: string, rows: Row[]): Promise<string> {
+  const file = `${base}_summary.csv`;
+  const writer = openRowWriter(file, "csv", SUMMARY_COLUMNS);
+  for (const row of rows) await writer.write(row);
+  await writer.close();
+  return file;
+}
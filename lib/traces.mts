@@ -0,0 +1,127 @@
+import { blockTimestamps, scanBlocks, type RpcBatch, type RpcCall, type ScanOpts } from "./logs.mjs";
+
+/**
+ * ======= Internal native transfers from an RPC's traces =======
+ * The explorer-free source for internal transfers, and a cross-check of Etherscan's txlistinternal
+ * index: value-carrying calls to a wallet made inside transactions. `trace_filter` (Erigon,
+ * Nethermind, Reth, trace-enabled hosted RPCs) finds the transactions; their full traces then
+ * decide which calls stuck, since a call under a reverted frame moved nothing. Nodes with only the
+ * debug API replay each block with geth's callTracer instead. Rows are shaped like txlistinternal
+ * rows, with the call's trace address (`_`-joined) as `traceId`.
+ */
+export type TraceMethod = "trace_filter" | "debug";
+export const TRACE_METHODS: TraceMethod[] = ["trace_filter", "debug"];
+
+// Blocks replayed per batch request with the debug API; traces of busy blocks are large
+const DEBUG_BLOCKS_PER_BATCH = 10;
+const TXS_PER_BATCH = 50;
+
+const hex = (n: number) => "0x" + n.toString(16);
+
+type Transfer = { block: string; hash: string; traceAddress: number[]; from: string; to: string; value: bigint; type: string };
+
+// Parity-style trace: a plain call or a contract creation that moved value, and to where
+function parityTransfer(t: any): { from: string; to: string; value: bigint; type: string } | null {
+  const a = t?.action ?? {};
+  const to = t.type === "call" && a.callType === "call" ? a.to : t.type === "create" ? t.result?.address : null;
+  if (!to || !a.value) return null;
+  return { from: String(a.from ?? ""), to: String(to), value: BigInt(a.value), type: t.type };
+}
+
+const isPrefix = (p: number[], of: number[]) => p.length <= of.length && p.every((x, i) => x === of[i]);
+
+// Value moved inside one transaction (not the transaction itself) whose frame and ancestors didn't revert
+function parityTransfers(traces: any[]): Transfer[] {
+  const reverted = traces.filter((t) => t.error).map((t) => t.traceAddress as number[]);
+  const out: Transfer[] = [];
+  for (const t of traces) {
+    const path: number[] = t.traceAddress ?? [];
+    const x = parityTransfer(t);
+    if (!x || x.value <= 0n || path.length === 0 || reverted.some((r) => isPrefix(r, path))) continue;
+    out.push({ ...x, block: hex(Number(t.blockNumber)), hash: t.transactionHash, traceAddress: path });
+  }
+  return out;
+}
+
+async function viaTraceFilter(rpc: { call: RpcCall; batch: RpcBatch }, to: string, fromBlock: number, toBlock: number, opts: ScanOpts) {
+  const hits = await scanBlocks<any>((from, end) => rpc.call("trace_filter", [{
+    fromBlock: hex(from),
+    toBlock: hex(end),
+    toAddress: [to],
+  }]), fromBlock, toBlock, opts);
+  const hashes = Array.from(new Set(hits
+    .filter((t) => (t.traceAddress ?? []).length > 0 && parityTransfer(t)?.value)
+    .map((t) => t.transactionHash as string)));
+  const out: Transfer[] = [];
+  for (let i = 0; i < hashes.length; i += TXS_PER_BATCH) {
+    const slice = hashes.slice(i, i + TXS_PER_BATCH);
+    const traces = await rpc.batch(slice.map((h) => ({ method: "trace_transaction", params: [h] })));
+    for (const t of traces) out.push(...parityTransfers(Array.isArray(t) ? t : []));
+  }
+  return out;
+}
+
+// callTracer frame tree: children sit in `calls`, in the same order as Parity trace addresses
+function frameTransfers(frame: any, block: string, hash: string, path: number[], reverted: boolean, out: Transfer[]) {
+  const failed = reverted || !!frame?.error;
+  const type = String(frame?.type ?? "").toLowerCase();
+  const value = frame?.value ? BigInt(frame.value) : 0n;
+  if (!failed && path.length > 0 && value > 0n && (type === "call" || type === "create" || type === "create2") && frame.to) {
+    out.push({ block, hash, traceAddress: path, from: String(frame.from ?? ""), to: String(frame.to), value, type: type === "call" ? "call" : "create" });
+  }
+  (frame?.calls ?? []).forEach((c: any, i: number) => frameTransfers(c, block, hash, [...path, i], failed, out));
+}
+
+async function viaDebug(rpc: { batch: RpcBatch }, fromBlock: number, toBlock: number) {
+  const out: Transfer[] = [];
+  const times = new Map<string, number>();
+  for (let start = fromBlock; start <= toBlock; start += DEBUG_BLOCKS_PER_BATCH) {
+    const blocks = Array.from({ length: Math.min(DEBUG_BLOCKS_PER_BATCH, toBlock - start + 1) }, (_, i) => hex(start + i));
+    const res = await rpc.batch(blocks.flatMap((b) => [
+      { method: "eth_getBlockByNumber", params: [b, false] },
+      { method: "debug_traceBlockByNumber", params: [b, { tracer: "callTracer" }] },
+    ]));
+    blocks.forEach((b, j) => {
+      const block = res[2 * j];
+      times.set(b, Number.parseInt(block?.timestamp ?? "0x0", 16));
+      // Newer geth tags each result with its txHash; older ones follow the block's transaction order
+      (res[2 * j + 1] ?? []).forEach((r: any, i: number) =>
+        frameTransfers(r?.result ?? r, b, r?.txHash ?? block?.transactions?.[i] ?? "", [], false, out));
+    });
+  }
+  return { transfers: out, times };
+}
+
+/**
+ * Internal native transfers to `to` in [fromBlock, toBlock], oldest first, as txlistinternal-style
+ * rows (decimal strings for block, time and value; `traceId` is the trace address).
+ */
+export async function fetchTraceTransfers(
+  rpc: { call: RpcCall; batch: RpcBatch },
+  opts: { to: string; fromBlock: number; toBlock: number; method: TraceMethod } & ScanOpts,
+): Promise<any[]> {
+  const wallet = opts.to.toLowerCase();
+  let transfers: Transfer[];
+  let times: Map<string, number>;
+  if (opts.method === "debug") {
+    ({ transfers, times } = await viaDebug(rpc, opts.fromBlock, opts.toBlock));
+  } else {
+    transfers = await viaTraceFilter(rpc, opts.to, opts.fromBlock, opts.toBlock, opts);
+    times = new Map();
+  }
+  transfers = transfers.filter((t) => t.to.toLowerCase() === wallet);
+  times = await blockTimestamps(rpc.batch, transfers.map((t) => t.block), times);
+  return transfers
+    .map((t) => ({
+      blockNumber: String(Number.parseInt(t.block, 16)),
+      timeStamp: String(times.get(t.block) ?? 0),
+      hash: t.hash,
+      from: t.from.toLowerCase(),
+      to: t.to.toLowerCase(),
+      value: t.value.toString(),
+      traceId: t.traceAddress.join("_"),
+      type: t.type,
+      isError: "0",
+    }))
+    .sort((a, b) => Number(a.blockNumber) - Number(b.blockNumber));
+}
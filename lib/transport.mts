@@ -0,0 +1,217 @@
+import axios from "axios";
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { custom } from "viem";
+
+import { providerOf, scheduled } from "./scheduler.mjs";
+
+/**
+ * ======= HTTP transport for every external call (Etherscan, CoinGecko, JSON-RPC) =======
+ * Callers go through `httpRequest`; the transport behind it is axios by default, can be swapped
+ * with `setTransport` (tests), and wrapped to record responses to a directory or replay them
+ * from one with no network (`--record=<dir>` / `--replay=<dir>`).
+ */
+export type HttpRequest = {
+  method: "GET" | "POST";
+  url: string;
+  params?: Record<string, unknown>; // query string
+  body?: unknown; // JSON body; a string is sent as-is
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  retry429?: boolean; // false: a 429 comes back as an HttpError right away (the caller retries)
+  live?: boolean; // true: always the underlying transport, never recorded or replayed (webhook deliveries)
+};
+
+export type HttpResponse = {
+  status: number;
+  data: any;
+  headers: Record<string, string>;
+};
+
+export type Transport = (req: HttpRequest) => Promise<HttpResponse>;
+
+/** Non-2xx answer; `response` mirrors axios errors so callers can check `e.response.status`. */
+export class HttpError extends Error {
+  response: HttpResponse;
+  constructor(req: HttpRequest, res: HttpResponse) {
+    super(`HTTP ${res.status} from ${redactUrl(req)}`);
+    this.response = res;
+  }
+}
+
+/** A 2xx answer that reports an error in its body (e.g. an Etherscan `status "0"`). */
+export class UpstreamError extends Error {}
+
+export const axiosTransport: Transport = async (req) => {
+  const res = await axios.request({
+    method: req.method,
+    url: req.url,
+    params: req.params,
+    data: req.body,
+    timeout: req.timeoutMs ?? 30000,
+    headers: { ...(req.body !== undefined && { "content-type": "application/json" }), ...req.headers },
+    validateStatus: () => true,
+  });
+  const headers: Record<string, string> = {};
+  for (const [k, v] of Object.entries(res.headers || {})) if (v != null) headers[k.toLowerCase()] = String(v);
+  return { status: res.status, data: res.data, headers };
+};
+
+let baseTransport: Transport = axiosTransport;
+let activeTransport: Transport = axiosTransport;
+let replaying = false;
+
+/** Replace the underlying transport (e.g. with a fake in tests). */
+export function setTransport(transport: Transport): void {
+  baseTransport = transport;
+  activeTransport = transport;
+  replaying = false;
+}
+
+/** Apply --record / --replay (call once at startup, after any setTransport). */
+export function configureTransport(opts: { record?: string | undefined; replay?: string | undefined }): void {
+  if (opts.record && opts.replay) throw new Error("--record and --replay can't be combined");
+  if (opts.replay) {
+    activeTransport = replayTransport(opts.replay);
+    replaying = true;
+  } else if (opts.record) {
+    activeTransport = recordingTransport(baseTransport, opts.record);
+  }
+}
+
+/** True when responses come from a recording; rate limits skip their waits. */
+export function isReplaying(): boolean {
+  return replaying;
+}
+
+/**
+ * Send a request through the active transport (the underlying one for `live` requests), paced by
+ * its provider's limits (see scheduler); returns the response body, throws HttpError on non-2xx.
+ */
+export async function httpRequest(req: HttpRequest): Promise<any> {
+  const transport = req.live ? baseTransport : activeTransport;
+  const res = await scheduled(providerOf(req.url), () => transport(req), {
+    paced: req.live || !replaying,
+    retry429: req.retry429 ?? true,
+  });
+  if (res.status < 200 || res.status >= 300) throw new HttpError(req, res);
+  return res.data;
+}
+
+// --- record / replay
+
+// JSON-RPC endpoints are keyed by origin only: the path often carries the provider's API key,
+// and a recording should replay against any key. GETs keep their path and query minus `apikey`.
+function redactUrl(req: HttpRequest): string {
+  if (req.method === "POST") return new URL(req.url).origin;
+  return req.url;
+}
+
+// JSON-RPC ids differ run to run; they're left out of the key and restored on replay
+function stripRpcIds(body: unknown): unknown {
+  if (Array.isArray(body)) return body.map(stripRpcIds);
+  if (body && typeof body === "object" && "jsonrpc" in body) {
+    const { id: _id, ...rest } = body as Record<string, unknown>;
+    return rest;
+  }
+  return body;
+}
+
+function stableStringify(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(stableStringify).join(",")}]`;
+  if (v && typeof v === "object") {
+    const entries = Object.entries(v as Record<string, unknown>)
+      .filter(([, x]) => x !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, x]) => `${JSON.stringify(k)}:${stableStringify(x)}`).join(",")}}`;
+  }
+  return JSON.stringify(v ?? null);
+}
+
+type RecordedRequest = { method: HttpRequest["method"]; url: string; params?: Record<string, unknown>; body?: unknown };
+type Recording = { request: RecordedRequest; response: { status: number; data: any } };
+
+function toRecordedRequest(req: HttpRequest): RecordedRequest {
+  const out: RecordedRequest = { method: req.method, url: redactUrl(req) };
+  if (req.params) {
+    const { apikey: _apikey, ...params } = req.params;
+    out.params = params;
+  }
+  if (req.body !== undefined) out.body = stripRpcIds(req.body);
+  return out;
+}
+
+const recordingKey = (r: RecordedRequest) =>
+  `${r.method} ${redactUrl(r)} ${stableStringify(r.params ?? {})} ${stableStringify(stripRpcIds(r.body) ?? null)}`;
+
+/** Pass requests through and save each 2xx response as `<dir>/<hash>.json`. */
+function recordingTransport(inner: Transport, dir: string): Transport {
+  return async (req) => {
+    const res = await inner(req);
+    if (res.status >= 200 && res.status < 300) {
+      const request = toRecordedRequest(req);
+      const name = createHash("sha256").update(recordingKey(request)).digest("hex").slice(0, 24);
+      const recording: Recording = { request, response: { status: res.status, data: res.data } };
+      await mkdir(dir, { recursive: true });
+      await writeFile(join(dir, `${name}.json`), JSON.stringify(recording, null, 2) + "\n", "utf8");
+    }
+    return res;
+  };
+}
+
+/**
+ * Serve responses from every `*.json` in `dir`. A file holds one recording or an array of
+ * them (handy for hand-assembled fixtures); file names don't matter. Unknown requests fail.
+ */
+function replayTransport(dir: string): Transport {
+  let loaded: Promise<Map<string, Recording>> | null = null;
+  const load = async () => {
+    const byKey = new Map<string, Recording>();
+    const files = (await readdir(dir).catch(() => [] as string[])).filter((f) => f.endsWith(".json")).sort();
+    for (const f of files) {
+      const parsed = JSON.parse(await readFile(join(dir, f), "utf8"));
+      for (const r of (Array.isArray(parsed) ? parsed : [parsed]) as Recording[]) {
+        byKey.set(recordingKey(r.request), r);
+      }
+    }
+    return byKey;
+  };
+  return async (req) => {
+    loaded ??= load();
+    const recording = (await loaded).get(recordingKey(toRecordedRequest(req)));
+    if (!recording) {
+      const r = toRecordedRequest(req);
+      throw new Error(`No recording in ${dir} for ${r.method} ${r.url} ${stableStringify(r.params ?? r.body ?? {})}`);
+    }
+    let data = recording.response.data;
+    const body = req.body as any;
+    if (body && data && typeof data === "object" && !Array.isArray(data) && "jsonrpc" in data && "id" in body) {
+      data = { ...data, id: body.id };
+    }
+    return { status: recording.response.status, data, headers: {} };
+  };
+}
+
+// --- JSON-RPC
+
+/** viem transport for an RPC URL that sends every call through `httpRequest`. */
+export function rpcTransport(url: string) {
+  let nextId = 1;
+  return custom({
+    async request({ method, params }) {
+      const data = await httpRequest({
+        method: "POST",
+        url,
+        body: { jsonrpc: "2.0", id: nextId++, method, params: params ?? [] },
+      });
+      if (data?.error) {
+        throw Object.assign(new Error(String(data.error.message || "RPC error")), {
+          code: data.error.code,
+          data: data.error.data,
+        });
+      }
+      return data?.result;
+    },
+  });
+}
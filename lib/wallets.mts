@@ -0,0 +1,116 @@
+import { getAddress, isAddress, type Address } from "viem";
+
+import { findKnownChain } from "./chains.mjs";
+import { getChain, parseWalletEntry, type ChainName, type Config, type WalletCfg } from "./config.mjs";
+import { isWalletName, normalizeName } from "./names.mjs";
+
+/** What outputs show next to an address. */
+export type WalletInfo = {
+  name: string; // the ENS name / Basename it was listed as, "" for plain addresses
+  label: string;
+  groups: string[];
+};
+
+export type ParsedWallets = {
+  scoped: Map<ChainName, Address[]>; // one entry per configured chain
+  unscoped: Address[];
+  info: Map<string, WalletInfo>; // by lowercased address
+};
+
+const NO_INFO: WalletInfo = { name: "", label: "", groups: [] };
+
+/** Name, label and groups for an address (empty when it has none). */
+export function walletInfo(parsed: ParsedWallets, address: string): WalletInfo {
+  return parsed.info.get(address.toLowerCase()) ?? NO_INFO;
+}
+
+const toCfg = (w: string | WalletCfg): WalletCfg => (typeof w === "string" ? parseWalletEntry(w) : w);
+
+/** Split off an optional `<chain>:` prefix. */
+function splitEntry(entry: string): { prefix: string | null; value: string } {
+  const sep = entry.indexOf(":");
+  return sep < 0
+    ? { prefix: null, value: entry.trim() }
+    : { prefix: entry.slice(0, sep).trim(), value: entry.slice(sep + 1).trim() };
+}
+
+/** Names (ENS / Basenames) among WALLETS entries, to resolve before parseWallets. */
+export function walletNames(raw: (string | WalletCfg)[]): string[] {
+  return raw.map((w) => splitEntry(toCfg(w).entry).value).filter(isWalletName);
+}
+
+/** Validate one address, returning it checksummed. Mixed case must carry a valid checksum. */
+export function checkAddress(value: string, entry: string): Address {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(value)) {
+    throw new Error(`Invalid wallet entry "${entry}": expected a 0x address (40 hex digits) or an ENS/Basename`);
+  }
+  if (!isAddress(value, { strict: true })) {
+    throw new Error(
+      `Invalid wallet entry "${entry}": checksum mismatch (use ${getAddress(value.toLowerCase())} or all lowercase)`,
+    );
+  }
+  return getAddress(value);
+}
+
+/**
+ * Split WALLETS entries into chain-scoped (`<chain or alias>:0x..`) and unscoped (`0x..`).
+ * Addresses are validated and checksummed; names are looked up in `resolved` (from resolveNames).
+ * Labels and groups attach to the address; when it's listed more than once, the first label
+ * wins and groups are merged.
+ * Prefixes for registry chains missing from the config are skipped with a warning;
+ * unknown prefixes are an error. Repeats of a wallet in the same scope are dropped with a warning.
+ */
+export function parseWallets(
+  raw: (string | WalletCfg)[],
+  config: Config,
+  resolved: Map<string, Address> = new Map(),
+): ParsedWallets {
+  const scoped = new Map<ChainName, Address[]>(config.chains.map((c) => [c.name, []]));
+  const unscoped: Address[] = [];
+  const info = new Map<string, WalletInfo>();
+
+  const add = (list: Address[], addr: Address, entry: string) => {
+    if (list.some((a) => a.toLowerCase() === addr.toLowerCase())) {
+      console.warn(`[warn] wallet ${entry} is listed more than once; keeping one`);
+      return;
+    }
+    list.push(addr);
+  };
+
+  for (const w of raw) {
+    const { entry, label, groups } = toCfg(w);
+    const { prefix, value } = splitEntry(entry);
+    let addr: Address;
+    let name = "";
+    if (isWalletName(value)) {
+      name = normalizeName(value);
+      const hit = resolved.get(name);
+      if (!hit) throw new Error(`Wallet name ${name} was not resolved`);
+      addr = hit;
+    } else {
+      addr = checkAddress(value, entry);
+    }
+    const prev = info.get(addr.toLowerCase());
+    info.set(addr.toLowerCase(), {
+      name: prev?.name || name,
+      label: prev?.label || label,
+      groups: Array.from(new Set([...(prev?.groups ?? []), ...groups])),
+    });
+    if (prefix == null) {
+      add(unscoped, addr, entry);
+      continue;
+    }
+    const chain = getChain(config, prefix);
+    if (chain) {
+      add(scoped.get(chain.name)!, addr, entry);
+    } else if (findKnownChain(prefix)) {
+      console.warn(`[warn] wallet ${entry} is scoped to ${prefix}, which is not in ${config.source}; skipping it`);
+    } else {
+      throw new Error(
+        `Unknown chain prefix "${prefix}" in wallet entry ${entry} ` +
+          `(configured: ${config.chains.map((c) => c.name).join(", ")})`,
+      );
+    }
+  }
+  return { scoped, unscoped, info };
+}
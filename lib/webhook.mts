@@ -0,0 +1,55 @@
+import { createHmac } from "node:crypto";
+
+import { retryAfterMs } from "./scheduler.mjs";
+import { HttpError, httpRequest } from "./transport.mjs";
+
+/**
+ * ======= Webhook delivery for `inbound --mode watch` =======
+ * Each event is POSTed as JSON. With a secret, `X-Walletbalance-Signature: sha256=<hex>` is the
+ * HMAC-SHA256 of `<timestamp>.<body>`, where `X-Walletbalance-Timestamp` is the unix time of the
+ * attempt, so a receiver can check the sender and reject stale replays.
+ */
+export type WebhookOpts = {
+  url: string;
+  secret: string; // "" sends unsigned
+  retries: number; // attempts after the first
+  baseDelayMs?: number; // backoff doubles from here (default 1000)
+};
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return "sha256=" + createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// Network errors, timeouts, 5xx and 429 are worth another try; other 4xx won't change
+function retryable(e: unknown): boolean {
+  if (!(e instanceof HttpError)) return true;
+  const status = e.response.status;
+  return status >= 500 || status === 429 || status === 408;
+}
+
+// Retry-After, when the receiver sent one
+const retryAfter = (e: unknown) => (e instanceof HttpError ? retryAfterMs(e.response.headers["retry-after"]) : null);
+
+/** POST `event`, retrying with exponential backoff; throws the last error once retries run out. */
+export async function postWebhook(event: object, opts: WebhookOpts): Promise<void> {
+  const body = JSON.stringify(event);
+  const baseMs = opts.baseDelayMs ?? 1000;
+  for (let attempt = 0; ; attempt++) {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const headers: Record<string, string> = { "x-walletbalance-timestamp": String(timestamp) };
+    if (opts.secret) headers["x-walletbalance-signature"] = signWebhook(opts.secret, timestamp, body);
+    try {
+      // Retried here rather than by the scheduler so each attempt gets a fresh timestamp and signature.
+      // Live: a delivery is a side effect, so --record doesn't save it and --replay doesn't fake it
+      await httpRequest({ method: "POST", url: opts.url, body, headers, timeoutMs: 10000, retry429: false, live: true });
+      return;
+    } catch (e) {
+      if (attempt >= opts.retries || !retryable(e)) throw e;
+      const delay = retryAfter(e) ?? baseMs * Math.pow(2, attempt);
+      console.warn(`[warn] Webhook delivery failed (${(e as Error)?.message || String(e)}); retrying in ${delay}ms...`);
+      await sleep(delay);
+    }
+  }
+}
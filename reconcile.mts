@@ -0,0 +1,248 @@
+import "dotenv/config";
+import { createPublicClient, formatUnits, type Address } from "viem";
+
+import { mkdir } from "node:fs/promises";
+
+import { isEntryPoint, NETWORK_OPTIONS, readArgs, type CommandSpec } from "./lib/args.mjs";
+import { readBalances, type BalanceCall } from "./lib/balances.mjs";
+import { resolveBlockAtTime } from "./lib/blocks.mjs";
+import { configureCache, isFinalizedTs } from "./lib/cache.mjs";
+import { loadConfig, rawWallets, type ChainCfg, type Config } from "./lib/config.mjs";
+import { parseDateArg } from "./lib/dates.mjs";
+import { ETHERSCAN_API_KEY, fetchAccountPages, type AccountAction } from "./lib/etherscan.mjs";
+import { addL1Fees, toLedgerEntries, type LedgerEntry } from "./lib/ledger.mjs";
+import { resolveNames } from "./lib/names.mjs";
+import { openRowWriter, outputPath, parseFormat, TRANSFER_FORMATS, type OutputFormat, type Row } from "./lib/output.mjs";
+import { assetKeyOf, reconcile, sumFlows, type Flow } from "./lib/reconcile.mjs";
+import { configureLimits, printThroughput } from "./lib/scheduler.mjs";
+import { configureTransport, rpcTransport } from "./lib/transport.mjs";
+import { parseWallets, walletInfo, walletNames, type ParsedWallets } from "./lib/wallets.mjs";
+
+export const command: CommandSpec = {
+  name: "reconcile",
+  summary: "Check that opening balance + inflows - outflows - gas = closing balance per wallet, chain and asset between two dates.",
+  options: [
+    { name: "start", type: "date", env: "START", description: "Opening point; a bare date means 23:59:59Z that day (required)" },
+    { name: "end", type: "date", env: "END", description: "Closing point (required)" },
+    { name: "maxPages", type: "int", env: "MAX_PAGES", min: 1, default: 100, description: "Explorer pages per wallet and list" },
+    { name: "multicallChunk", type: "int", env: "MULTICALL_CHUNK", min: 1, default: 500, description: "Calls per multicall request" },
+    ...NETWORK_OPTIONS.filter((o) => o.name !== "prices" && o.name !== "priceFile"),
+  ],
+  env: [
+    { name: "WALLETS", description: "Comma-separated [chain:]address-or-name[|label|group;group] entries; overrides the config's wallets" },
+    { name: "RPC_<CHAIN>", description: "Archive RPC URL for a registry chain (RPC_BASE, RPC_OP, ...)" },
+    { name: "ETHERSCAN_API_KEY", description: "Required" },
+  ],
+  examples: ["walletbalance reconcile --start 2023-12-31 --end 2024-12-31"],
+};
+
+const LISTS: [AccountAction, LedgerEntry["txType"]][] = [
+  ["txlist", "normal"],
+  ["txlistinternal", "internal"],
+  ["tokentx", "token"],
+];
+
+const looksLikePlaceholder = (s: string) => /\/KEY$/.test(s);
+
+export async function main(argv: string[]) {
+  const args = readArgs(command, argv);
+  // Recording and replaying bypass the cache so every external response is captured / served
+  const record = args.str("record");
+  const replay = args.str("replay");
+  configureCache({
+    enabled: !args.flag("no-cache") && !record && !replay,
+    dir: args.str("cacheDir"),
+  });
+  try {
+    configureTransport({ record, replay });
+  } catch (e: any) {
+    console.error(e?.message || String(e));
+    process.exit(1);
+  }
+  if (!args.str("start") || !args.str("end")) {
+    console.error("Pass --start and --end (e.g. --start 2023-12-31 --end 2024-12-31).");
+    process.exit(1);
+  }
+  const startIso = parseDateArg(args.str("start"))!;
+  const endIso = parseDateArg(args.str("end"))!;
+  if (Date.parse(startIso) >= Date.parse(endIso)) {
+    console.error(`--start (${startIso}) must be before --end (${endIso})`);
+    process.exit(1);
+  }
+  if (!ETHERSCAN_API_KEY) {
+    console.error("Set ETHERSCAN_API_KEY in .env; flows come from the explorer.");
+    process.exit(1);
+  }
+  const startTs = Math.floor(Date.parse(startIso) / 1000);
+  const endTs = Math.floor(Date.parse(endIso) / 1000);
+  const maxPages = args.num("maxPages");
+  const multicallChunk = args.num("multicallChunk");
+
+  let config: Config;
+  let parsed: ParsedWallets;
+  let format: OutputFormat;
+  try {
+    format = parseFormat(args.str("format"));
+    if (TRANSFER_FORMATS.includes(format)) throw new Error(`--format=${format} is for transfer outputs (inbound); reconcile supports csv, json and ndjson`);
+    config = await loadConfig(args.str("config"));
+    configureLimits(config.limits);
+    // Names resolve at the closing date, like a snapshot at --end
+    const raw = rawWallets(config);
+    const names = walletNames(raw);
+    const resolved = names.length > 0
+      ? await resolveNames(names, config, { blockAt: (client, chainId) => resolveBlockAtTime(client, chainId, endTs) })
+      : undefined;
+    parsed = parseWallets(raw, config, resolved);
+  } catch (e: any) {
+    console.error(e?.shortMessage || e?.message || String(e));
+    process.exit(1);
+  }
+
+  // Same wallet scoping as snapshot: scoped wallets pick their chains, unscoped ones cover all
+  const { scoped, unscoped } = parsed;
+  const anyScoped = Array.from(scoped.values()).some((arr) => arr.length > 0);
+  const walletsFor = (chain: ChainCfg): Address[] => [...(scoped.get(chain.name) ?? []), ...(!anyScoped ? unscoped : [])];
+  let chains = config.chains.filter((c) => walletsFor(c).length > 0);
+  if (chains.length === 0) {
+    console.error("Set WALLETS in .env or `wallets` in the config.");
+    process.exit(1);
+  }
+  for (const c of chains.filter((c) => c.explorerChainId == null)) {
+    console.warn(`[warn] ${c.name} has no explorer API coverage; skipping it`);
+  }
+  chains = chains.filter((c) => c.explorerChainId != null);
+  const missingRpc = chains.filter((c) => !c.rpc || looksLikePlaceholder(c.rpc));
+  if (missingRpc.length > 0) {
+    console.error(`Set real archive RPC URLs for: ${missingRpc.map((c) => c.name).join(", ")} (RPC_<CHAIN> or chains.<name>.rpc).`);
+    process.exit(1);
+  }
+
+  const header = [
+    "chain",
+    "wallet",
+    "wallet_name",
+    "wallet_label",
+    "wallet_groups",
+    "asset",
+    "token_address",
+    "opening_block",
+    "closing_block",
+    "opening",
+    "inflow",
+    "outflow",
+    "gas",
+    "expected_closing",
+    "closing",
+    "discrepancy", // closing - expected_closing
+    "transfers",
+    "status", // ok | mismatch
+  ];
+  const rows: Row[] = [];
+  let mismatches = 0;
+
+  for (const chain of chains) {
+    const client = createPublicClient({ transport: rpcTransport(chain.rpc) });
+    const openBlock = await resolveBlockAtTime(client, chain.chainId, startTs);
+    const closeBlock = await resolveBlockAtTime(client, chain.chainId, endTs);
+    console.log(`\n${chain.name}: blocks ${openBlock} -> ${closeBlock}`);
+    const native = { symbol: chain.nativeSymbol, decimals: chain.nativeDecimals };
+
+    // Flows strictly after the opening block, up to and including the closing block
+    const flowsByWallet = new Map<Address, Map<string, Flow>>();
+    for (const wallet of walletsFor(chain)) {
+      const entries: LedgerEntry[] = [];
+      const seen = new Set<string>();
+      for (const [action, txType] of LISTS) {
+        const txs = await fetchAccountPages(chain.explorerChainId!, action, wallet, {
+          startBlock: Number(openBlock) + 1,
+          endBlock: Number(closeBlock),
+          maxPages,
+          finalized: isFinalizedTs(endTs),
+        });
+        for (const e of toLedgerEntries(chain, wallet, txType, txs)) {
+          if (seen.has(e.key)) continue;
+          seen.add(e.key);
+          entries.push(e);
+        }
+      }
+      await addL1Fees(entries, async (calls) => {
+        const out: any[] = [];
+        for (const c of calls) out.push(await client.request({ method: c.method as any, params: c.params as any }));
+        return out;
+      });
+      flowsByWallet.set(wallet, sumFlows(entries, native));
+      console.log(`${wallet}: ${entries.length} transfers`);
+    }
+
+    // Native + configured tokens + any token that moved, at both blocks
+    const assetsFor = (wallet: Address) => {
+      const assets = new Map<string, Pick<Flow, "symbol" | "tokenAddress" | "decimals">>([
+        ["native", { symbol: native.symbol, tokenAddress: "", decimals: native.decimals }],
+      ]);
+      for (const t of chain.tokens) {
+        assets.set(assetKeyOf(t.address), { symbol: t.symbol, tokenAddress: t.address.toLowerCase(), decimals: t.decimals });
+      }
+      for (const [key, f] of flowsByWallet.get(wallet) ?? []) if (!assets.has(key)) assets.set(key, f);
+      return Array.from(assets.entries());
+    };
+    const calls: BalanceCall[] = walletsFor(chain).flatMap((wallet) =>
+      assetsFor(wallet).map(([, a]) => ({ wallet, token: (a.tokenAddress || null) as Address | null })),
+    );
+    const read = (blockNumber: bigint) =>
+      readBalances(client, calls, { blockNumber, multicall3: chain.multicall3, chunkSize: multicallChunk, label: chain.name });
+    const opening = await read(openBlock);
+    const closing = await read(closeBlock);
+
+    let next = 0;
+    for (const wallet of walletsFor(chain)) {
+      const w = walletInfo(parsed, wallet);
+      for (const [key, asset] of assetsFor(wallet)) {
+        const i = next++;
+        const open = opening[i]!;
+        const close = closing[i]!;
+        const flow = flowsByWallet.get(wallet)?.get(key) ?? { inflow: 0n, outflow: 0n, gas: 0n, transfers: 0 };
+        // Assets that were never held and never moved would only add noise
+        if (open === 0n && close === 0n && flow.transfers === 0 && flow.gas === 0n) continue;
+        const r = reconcile(open, close, flow);
+        const fmt = (v: bigint) => formatUnits(v, asset.decimals);
+        if (!r.ok) {
+          mismatches += 1;
+          console.warn(`[warn] ${chain.name}:${wallet} ${asset.symbol}: off by ${fmt(r.discrepancy)}`);
+        }
+        rows.push({
+          chain: chain.name,
+          wallet,
+          wallet_name: w.name,
+          wallet_label: w.label,
+          wallet_groups: w.groups.join(";"),
+          asset: asset.symbol,
+          token_address: asset.tokenAddress,
+          opening_block: String(openBlock),
+          closing_block: String(closeBlock),
+          opening: fmt(open),
+          inflow: fmt(flow.inflow),
+          outflow: fmt(flow.outflow),
+          gas: fmt(flow.gas),
+          expected_closing: fmt(r.expected),
+          closing: fmt(close),
+          discrepancy: fmt(r.discrepancy),
+          transfers: String(flow.transfers),
+          status: r.ok ? "ok" : "mismatch",
+        });
+      }
+    }
+  }
+
+  const outDir = "csvs";
+  const outFile = outputPath(`${outDir}/reconcile_${startIso.slice(0, 10)}_to_${endIso.slice(0, 10)}`, format);
+  await mkdir(outDir, { recursive: true });
+  const writer = openRowWriter(outFile, format, header);
+  for (const row of rows) await writer.write(row);
+  await writer.close();
+  console.log(`\nWrote ${rows.length} rows to ./${outFile}: ${rows.length - mismatches} ok, ${mismatches} mismatch`);
+  printThroughput();
+}
+
+if (isEntryPoint(import.meta.url)) {
+  main(process.argv.slice(2)).catch((e) => { console.error(e); process.exit(1); });
+}
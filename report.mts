@@ -0,0 +1,87 @@
+import "dotenv/config";
+import { mkdir, writeFile } from "node:fs/promises";
+import { basename } from "node:path";
+
+import { CONFIG_OPTION, isEntryPoint, readArgs, type CommandSpec } from "./lib/args.mjs";
+import { getChain, loadConfig, type Config } from "./lib/config.mjs";
+import { readCsvFile } from "./lib/csv.mjs";
+import { openRowWriter } from "./lib/output.mjs";
+import {
+  buildReport,
+  printReport,
+  REPORT_COLUMNS,
+  reportItems,
+  reportKind,
+  reportMarkdown,
+  reportRows,
+  type ReportItem,
+  type ReportKind,
+} from "./lib/report.mjs";
+
+export const command: CommandSpec = {
+  name: "report",
+  summary: "Summarize snapshot, inbound or ledger CSVs per wallet, chain, asset, counterparty and month.",
+  options: [
+    { name: "input", type: "list", env: "REPORT_INPUT", placeholder: "csv,...", description: "Output CSVs of one kind (required)" },
+    { name: "top", type: "int", env: "REPORT_TOP", min: 1, default: 20, description: "Lines per table before the rest fold into (other N); months are never folded" },
+    CONFIG_OPTION,
+  ],
+  examples: [
+    "walletbalance report --input csvs/2024_ledger.csv",
+    "walletbalance report --input csvs/2024_internal_eth.csv,csvs/2024_inbound_usdc.csv --top 10",
+  ],
+};
+
+export async function main(argv: string[]) {
+  const args = readArgs(command, argv);
+  const inputs = args.list("input");
+  if (inputs.length === 0) {
+    console.error("Pass --input=<snapshot, inbound or ledger CSV>[,...] (e.g. --input=csvs/2024_ledger.csv).");
+    process.exit(1);
+  }
+
+  let config: Config;
+  let kind: ReportKind | null = null;
+  const items: ReportItem[] = [];
+  try {
+    config = await loadConfig(args.str("config"));
+    const nativeSymbol = (chain: string) => getChain(config, chain)?.nativeSymbol || "ETH";
+    for (const file of inputs) {
+      const rows = await readCsvFile(file);
+      if (rows.length === 0) {
+        console.warn(`[warn] ${file} has no rows`);
+        continue;
+      }
+      const k = reportKind(rows[0]!, file);
+      if (kind && k !== kind) throw new Error(`${file} is a ${k} CSV but earlier inputs are ${kind}; report one kind at a time`);
+      kind = k;
+      items.push(...reportItems(rows, k, nativeSymbol));
+    }
+  } catch (e: any) {
+    console.error(e?.message || String(e));
+    process.exit(1);
+  }
+  if (!kind) {
+    console.error("Nothing to report.");
+    process.exit(1);
+  }
+
+  const tables = buildReport(items, kind, { top: args.num("top") });
+  const dates = items.map((i) => i.date.slice(0, 10)).sort();
+  const title = `${kind[0]!.toUpperCase()}${kind.slice(1)} report, ${dates[0]} to ${dates[dates.length - 1]}`;
+  console.log(`${title} (${items.length} rows)`);
+  printReport(tables);
+
+  const outDir = "csvs";
+  const base = `${outDir}/${basename(inputs[0]!, ".csv")}_report`;
+  await mkdir(outDir, { recursive: true });
+  const writer = openRowWriter(`${base}.csv`, "csv", REPORT_COLUMNS);
+  for (const row of reportRows(tables)) await writer.write(row);
+  await writer.close();
+  await writeFile(`${base}.md`, reportMarkdown(title, inputs, tables), "utf8");
+  console.log(`\nWrote ./${base}.csv and ./${base}.md`);
+}
+
+if (isEntryPoint(import.meta.url)) {
+  main(process.argv.slice(2)).catch((e) => { console.error(e); process.exit(1); });
+}
@@ -0,0 +1,193 @@
+import "dotenv/config";
+
+import { ApiError, startApiServer, type ApiBackend, type ApiItem } from "./lib/api.mjs";
+import { CONCURRENCY_OPTION, isEntryPoint, NETWORK_OPTIONS, readArgs, type CommandSpec } from "./lib/args.mjs";
+import { configureCache } from "./lib/cache.mjs";
+import { applyPriceArgs, getChain, loadConfig, rawWallets, type Config, type TokenCfg } from "./lib/config.mjs";
+import { ETHERSCAN_API_KEY } from "./lib/etherscan.mjs";
+import { resolveNames } from "./lib/names.mjs";
+import { pricerFromConfig, type Pricer } from "./lib/prices.mjs";
+import { configureLimits, mapConcurrent } from "./lib/scheduler.mjs";
+import { configureTransport } from "./lib/transport.mjs";
+import { TRACE_METHODS, type TraceMethod } from "./lib/traces.mjs";
+import { parseWallets, walletInfo, walletNames, type ParsedWallets } from "./lib/wallets.mjs";
+import { configureInbound, inboundScope, inboundTransfers, TRANSFER_SOURCES, type TransferSource } from "./inbound.mjs";
+import { snapshotContext, snapshotRows, type SnapshotContext } from "./snapshot.mjs";
+
+export const command: CommandSpec = {
+  name: "serve",
+  summary: "Serve balances and inbound transfers as JSON over a local HTTP API.",
+  options: [
+    { name: "port", type: "int", env: "API_PORT", min: 0, default: 8787, description: "Port to listen on" },
+    { name: "host", type: "string", env: "API_HOST", default: "127.0.0.1", placeholder: "address", description: "Interface to bind; 0.0.0.0 exposes the API to the network" },
+    { name: "ttl", type: "int", env: "API_TTL", min: 0, default: 300, description: "Seconds a query's result is reused while paging through it" },
+    { name: "positions", type: "boolean", env: "SNAPSHOT_POSITIONS", description: "Include Aave v3 and configured LP positions in /balances" },
+    { name: "multicallChunk", type: "int", env: "MULTICALL_CHUNK", min: 1, default: 500, description: "Calls per multicall request" },
+    { name: "maxPages", type: "int", env: "MAX_PAGES", min: 1, default: 100, description: "Explorer pages per wallet and asset for /transfers" },
+    { name: "source", type: "enum", env: "TRANSFER_SOURCE", values: TRANSFER_SOURCES, default: "etherscan", description: "Where /transfers reads from: etherscan, or logs and traces from each chain's RPC" },
+    { name: "logBlocks", type: "int", env: "LOG_BLOCKS", min: 1, default: 100000, description: "Blocks per eth_getLogs / trace_filter call with --source rpc" },
+    { name: "traceMethod", type: "enum", env: "TRACE_METHOD", values: TRACE_METHODS, default: "trace_filter", description: "How --source rpc finds internal transfers: trace_filter or debug" },
+    CONCURRENCY_OPTION,
+    ...NETWORK_OPTIONS.filter((o) => o.name !== "format"),
+  ],
+  env: [
+    { name: "WALLETS", description: "Comma-separated [chain:]address-or-name[|label|group;group] entries; overrides the config's wallets" },
+    { name: "RPC_<CHAIN>", description: "RPC URL for a registry chain (RPC_BASE, RPC_OP, ...)" },
+    { name: "ETHERSCAN_API_KEY", description: "Needed for /transfers unless --source rpc" },
+  ],
+  examples: [
+    "walletbalance serve --port 8787",
+    "curl 'http://127.0.0.1:8787/balances?date=2024-12-31&chain=base'",
+    "curl 'http://127.0.0.1:8787/transfers?from=2024-01-01&to=2024-03-31&asset=USDC&limit=50'",
+  ],
+};
+
+// A wallet query matches an address or a name the wallet was listed as
+function walletMatcher(parsed: ParsedWallets, value: string | null) {
+  const v = value?.toLowerCase() ?? null;
+  return (address: string) => v == null || address.toLowerCase() === v || walletInfo(parsed, address).name === v;
+}
+
+function chainFilter(config: Config, value: string | null): string | null {
+  if (!value) return null;
+  const chain = getChain(config, value);
+  if (!chain) {
+    throw new ApiError(400, "unknown_chain", `Unknown chain ${value}. Configured chains: ${config.chains.map((c) => c.name).join(", ")}`);
+  }
+  return chain.name;
+}
+
+const unknownWallet = (value: string) => new ApiError(400, "unknown_wallet", `No configured wallet matches ${value}`);
+
+/** Balances through the snapshot logic and transfers through the inbound logic, filtered per request. */
+function backendFor(
+  config: Config,
+  parsed: ParsedWallets,
+  ctx: SnapshotContext,
+  opts: { maxPages: number; source: TransferSource; concurrency: number },
+): ApiBackend {
+  const transferScope = inboundScope(config, parsed);
+  const nativeSymbols = new Set(config.chains.map((c) => c.nativeSymbol.toUpperCase()));
+  const knownTokens = new Set(config.chains.flatMap((c) => c.tokens).map((t) => t.symbol.toUpperCase()));
+
+  return {
+    async balances(q) {
+      const chain = chainFilter(config, q.chain);
+      const matches = walletMatcher(parsed, q.wallet);
+      const sub: SnapshotContext = {
+        ...ctx,
+        chains: ctx.chains.filter((c) => (!chain || c.name === chain) && ctx.walletsFor(c).some(matches)),
+        walletsFor: (c) => ctx.walletsFor(c).filter(matches),
+      };
+      if (q.wallet && sub.chains.length === 0) throw unknownWallet(q.wallet);
+      const rows = await snapshotRows(sub, q.date);
+      return q.asset ? rows.filter((r) => r.symbol?.toUpperCase() === q.asset!.toUpperCase()) : rows;
+    },
+
+    async transfers(q) {
+      if (opts.source === "etherscan" && !ETHERSCAN_API_KEY) throw new ApiError(503, "unavailable", "Set ETHERSCAN_API_KEY to query transfers");
+      const unknown = q.asset.filter((s) => s !== "NATIVE" && !nativeSymbols.has(s) && !knownTokens.has(s));
+      if (unknown.length > 0) {
+        throw new ApiError(400, "unknown_asset", `Unknown asset ${unknown.join(",")}. Configured tokens: ${Array.from(knownTokens).join(", ")}`);
+      }
+      const chain = chainFilter(config, q.chain);
+      const matches = walletMatcher(parsed, q.wallet);
+      const window = { startTs: Date.parse(q.from) / 1000, endTs: Date.parse(q.to) / 1000, maxPages: opts.maxPages };
+      const jobs: { name: string; wallet: string; token: TokenCfg | undefined }[] = [];
+      let anyWallet = false;
+      for (const [name, wallets] of transferScope) {
+        const c = getChain(config, name)!;
+        if ((chain && name !== chain) || (opts.source === "etherscan" && c.explorerChainId == null)) continue;
+        // No asset (or NATIVE) means internal native transfers, as in `inbound`
+        const assets: (TokenCfg | undefined)[] = [
+          ...(q.asset.length === 0 || q.asset.includes("NATIVE") || q.asset.includes(c.nativeSymbol.toUpperCase()) ? [undefined] : []),
+          ...c.tokens.filter((t) => q.asset.includes(t.symbol.toUpperCase())),
+        ];
+        for (const wallet of wallets.filter(matches)) {
+          anyWallet = true;
+          for (const token of assets) jobs.push({ name, wallet, token });
+        }
+      }
+      if (q.wallet && !anyWallet) throw unknownWallet(q.wallet);
+      const found = await mapConcurrent(jobs, opts.concurrency, (j) => inboundTransfers(j.name, j.wallet, j.token, window));
+      const out: ApiItem[] = found.flat().map((x) => x.json);
+      return out.sort((a, b) =>
+        String(a.date_iso).localeCompare(String(b.date_iso)) || String(a.id).localeCompare(String(b.id)));
+    },
+  };
+}
+
+export async function main(argv: string[]) {
+  const args = readArgs(command, argv);
+  // Recording and replaying bypass the cache so every external response is captured / served
+  const record = args.str("record");
+  const replay = args.str("replay");
+  configureCache({
+    enabled: !args.flag("no-cache") && !record && !replay,
+    dir: args.str("cacheDir"),
+  });
+  try {
+    configureTransport({ record, replay });
+  } catch (e: any) {
+    console.error(e?.message || String(e));
+    process.exit(1);
+  }
+
+  let config: Config;
+  let pricer: Pricer;
+  let parsed: ParsedWallets;
+  let ctx: SnapshotContext;
+  try {
+    config = await loadConfig(args.str("config"));
+    configureLimits(config.limits);
+    pricer = await pricerFromConfig(
+      applyPriceArgs(config.prices, { order: args.str("prices"), file: args.str("priceFile") }),
+    );
+    // Names resolve once, at startup, to the wallet they point to now
+    const raw = rawWallets(config);
+    const names = walletNames(raw);
+    parsed = parseWallets(raw, config, names.length > 0 ? await resolveNames(names, config) : undefined);
+    if (parsed.unscoped.length === 0 && Array.from(parsed.scoped.values()).every((w) => w.length === 0)) {
+      throw new Error("Set WALLETS in .env or `wallets` in the config.");
+    }
+    ctx = snapshotContext(config, parsed, pricer, {
+      multicallChunk: args.num("multicallChunk"),
+      withPositions: args.flag("positions"),
+      concurrency: args.num("concurrency"),
+      log: () => {},
+    });
+  } catch (e: any) {
+    console.error(e?.shortMessage || e?.message || String(e));
+    process.exit(1);
+  }
+  const source = args.str("source") as TransferSource;
+  configureInbound(config, pricer, parsed, {
+    source,
+    logBlocks: args.num("logBlocks"),
+    traceMethod: args.str("traceMethod") as TraceMethod,
+  });
+  if (source === "etherscan" && !ETHERSCAN_API_KEY) console.warn("[warn] ETHERSCAN_API_KEY is not set; /transfers will answer 503");
+
+  const host = args.str("host");
+  try {
+    const server = await startApiServer(backendFor(config, parsed, ctx, {
+      maxPages: args.num("maxPages"),
+      source,
+      concurrency: args.num("concurrency"),
+    }), {
+      host,
+      port: args.num("port"),
+      ttlMs: args.num("ttl") * 1000,
+    });
+    const addr = server.address();
+    const port = addr && typeof addr === "object" ? addr.port : args.num("port");
+    console.log(`Listening on http://${host}:${port} (GET /balances, /transfers, /health)`);
+  } catch (e: any) {
+    console.error(`Can't listen on ${host}:${args.num("port")}: ${e?.message || String(e)}`);
+    process.exit(1);
+  }
+}
+
+if (isEntryPoint(import.meta.url)) {
+  main(process.argv.slice(2)).catch((e) => { console.error(e); process.exit(1); });
+}
@@ -1,376 +1,524 @@
 import "dotenv/config";
 import {
   createPublicClient,
-  http,
-  parseAbi,
-  formatEther,
-  formatUnits,
   type Address,
 } from "viem";
-import axios from "axios";
-
-import { mkdir, writeFile } from "node:fs/promises";
-
-/** ======= TYPES UP TOP (no hoisting footgun) ======= */
-type ChainName = "base" | "optimism";
-
-/** ======= CONFIG (edit these) ======= */
-const RAW_WALLETS = (process.env.WALLETS || "")
-  .split(",")
-  .map((s) => s.trim())
-  .filter(Boolean);
-
-function parseWallets(
-  raw: string[],
-): { scoped: Record<ChainName, Address[]>; unscoped: Address[] } {
-  const scoped: Record<ChainName, Address[]> = { base: [], optimism: [] };
-  const unscoped: Address[] = [];
-
-  for (const entry of raw) {
-    const [maybeChain, maybeAddr] = entry.split(":");
-    const isOp = maybeChain === "optimism" || maybeChain === "op";
-    if (maybeAddr && (maybeChain === "base" || isOp)) {
-      scoped[isOp ? "optimism" : "base"].push(maybeAddr as Address);
-    } else {
-      unscoped.push(entry as Address);
-    }
-  }
-  return { scoped, unscoped };
-}
 
-const DATE_ISO = "2024-12-31T23:59:59Z"; // end-of-year UTC
+import { mkdir } from "node:fs/promises";
 
-// Bring-your-own RPCs (free Alchemy/QuickNode ok)
-const RPC = {
-  base: process.env.RPC_BASE || "https://base-mainnet.g.alchemy.com/v2/KEY",
-  op: process.env.RPC_OP || "https://opt-mainnet.g.alchemy.com/v2/KEY",
-};
-
-const TOKENS: Record<
-  ChainName,
-  { symbol: string; address: string; decimals: number }[]
-> = {
-  base: [
-    {
-      symbol: "USDC",
-      address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
-      decimals: 6,
-    },
+import { formatAmount, formatPrice, formatUsd, usdValue } from "./lib/amounts.mjs";
+import { CONCURRENCY_OPTION, isEntryPoint, NETWORK_OPTIONS, readArgs, type Args, type CommandSpec } from "./lib/args.mjs";
+import { readBalances, type BalanceCall } from "./lib/balances.mjs";
+import { resolveBlockAtTime } from "./lib/blocks.mjs";
+import { configureCache, isFinalizedTs } from "./lib/cache.mjs";
+import {
+  applyPriceArgs,
+  coingeckoIdsByAddress,
+  loadConfig,
+  rawWallets,
+  type ChainCfg,
+  type Config,
+} from "./lib/config.mjs";
+import { EVERY_VALUES, parseDateArg, periodEnds, type Every } from "./lib/dates.mjs";
+import { discoverTokens, type DiscoveredToken } from "./lib/discovery.mjs";
+import { ETHERSCAN_API_KEY } from "./lib/etherscan.mjs";
+import { openRowWriter, outputPath, parseFormat, TRANSFER_FORMATS, type OutputFormat, type Row } from "./lib/output.mjs";
+import { positionTokens, readPositions } from "./lib/positions.mjs";
+import { pricerFromConfig, type PriceQuote, type Pricer } from "./lib/prices.mjs";
+import { configureTransport, rpcTransport } from "./lib/transport.mjs";
+import { resolveNames } from "./lib/names.mjs";
+import { configureLimits, mapConcurrent, printThroughput } from "./lib/scheduler.mjs";
+import { addToSummary, printSummary, summaryRows, writeSummary, type Summary } from "./lib/summary.mjs";
+import { parseWallets, walletInfo, walletNames, type ParsedWallets } from "./lib/wallets.mjs";
+
+const DATE_ISO = "2024-12-31T23:59:59Z"; // default: end-of-year UTC (override with --date or --from/--to/--every)
+
+export const command: CommandSpec = {
+  name: "snapshot",
+  summary: "Snapshot native and ERC-20 balances (with USD values) at a date or over a series of dates.",
+  options: [
+    { name: "date", type: "date", env: "SNAPSHOT_DATE", description: "Single point in time; a bare date means 23:59:59Z that day; defaults to 2024-12-31" },
+    { name: "from", type: "date", env: "FROM", description: "Start of a balance series" },
+    { name: "to", type: "date", env: "TO", description: "End of a balance series" },
+    { name: "every", type: "enum", env: "EVERY", values: EVERY_VALUES, description: "Series step; defaults to month" },
+    { name: "multicallChunk", type: "int", env: "MULTICALL_CHUNK", min: 1, default: 500, description: "Calls per multicall request" },
+    { name: "discover", type: "boolean", env: "DISCOVER_TOKENS", description: "Also report tokens found in each wallet's transfer history" },
+    { name: "maxPages", type: "int", env: "MAX_PAGES", min: 1, default: 10, description: "Transfer pages scanned per wallet for --discover" },
+    { name: "positions", type: "boolean", env: "SNAPSHOT_POSITIONS", description: "Also report Aave v3 and configured LP positions in underlying tokens" },
+    CONCURRENCY_OPTION,
+    ...NETWORK_OPTIONS,
   ],
-  optimism: [
-    {
-      symbol: "USDC",
-      address: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85",
-      decimals: 6,
-    },
-    {
-      symbol: "OP",
-      address: "0x4200000000000000000000000000000000000042",
-      decimals: 18,
-    },
+  env: [
+    { name: "WALLETS", description: "Comma-separated [chain:]address-or-name[|label|group;group] entries; overrides the config's wallets" },
+    { name: "RPC_<CHAIN>", description: "RPC URL for a registry chain (RPC_BASE, RPC_OP, ...)" },
+    { name: "ETHERSCAN_API_KEY", description: "Needed for --discover" },
+  ],
+  examples: [
+    "walletbalance snapshot --date 2025-06-30",
+    "walletbalance snapshot --from 2024-01-01 --to 2024-12-31 --every quarter",
   ],
 };
 
-// CoinGecko IDs by token contract (lowercased)
-const COINGECKO_IDS_BY_ADDRESS: Record<string, string> = {
-  // USDC
-  "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913": "usd-coin", // base USDC
-  "0x0b2c639c533813f4aa9d7837caf62653d097ff85": "usd-coin", // optimism USDC
-  // OP token (Optimism)
-  "0x4200000000000000000000000000000000000042": "optimism",
-};
-
-// minimal ERC20 ABI
-const ERC20_ABI = parseAbi([
-  "function balanceOf(address) view returns (uint256)",
-  "function decimals() view returns (uint8)",
-]);
-
-type ChainCfg = {
-  name: ChainName;
-  rpc: string;
-  chainId: number;
-};
-
-const CHAINS: ChainCfg[] = [
-  { name: "base", rpc: RPC.base, chainId: 8453 },
-  { name: "optimism", rpc: RPC.op, chainId: 10 },
-];
-
 // --- utils
-const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
-
 const looksLikePlaceholder = (s: string) => /\/KEY$/.test(s);
 
-/** simple retry for transient RPC hiccups */
-async function withRetry<T>(fn: () => Promise<T>, tries = 3, delayMs = 100) {
-  let lastErr: unknown;
-  for (let i = 0; i < tries; i++) {
-    try {
-      return await fn();
-    } catch (e) {
-      lastErr = e;
-      if (i < tries - 1) await sleep(delayMs * (i + 1));
-    }
-  }
-  throw lastErr;
-}
+/** Resolve the snapshot points and output name from --date / --from --to --every. */
+function resolveSnapshotDates(args: Args): { dates: string[]; outName: string } {
+  const dateArg = args.str("date");
+  const fromArg = args.str("from");
+  const toArg = args.str("to");
+  const everyArg = args.str("every");
 
-/**
- * Binary-search the block whose timestamp is <= targetTs and next block is > targetTs.
- * Works on L2s as long as RPC supports getBlock.
- */
-async function resolveBlockAtTime(
-  client: ReturnType<typeof createPublicClient>,
-  targetTs: number,
-): Promise<bigint> {
-  const latest = await client.getBlockNumber();
-  // Quick exit: check latest timestamp
-  let latestBlock = await withRetry(() =>
-    client.getBlock({ blockNumber: latest }),
-  );
-  if (Number(latestBlock.timestamp) <= targetTs) return latest;
-
-  // low=0 (or 1), high=latest
-  let low = 0n;
-  let high = latest;
-
-  while (low < high) {
-    const mid = (low + high + 1n) >> 1n; // upper mid to avoid infinite loop
-    const b = await withRetry(() => client.getBlock({ blockNumber: mid }));
-    const ts = Number(b.timestamp);
-    if (ts <= targetTs) {
-      low = mid; // mid is valid or too early
-    } else {
-      high = mid - 1n; // mid too new
+  // values were validated by readArgs
+  const parse = (value: string): string => parseDateArg(value)!;
+
+  if (fromArg || toArg || everyArg) {
+    if (dateArg) {
+      console.error("Use either --date or --from/--to/--every, not both.");
+      process.exit(1);
+    }
+    if (!fromArg || !toArg) {
+      console.error("A balance series needs both --from and --to (plus --every, default month).");
+      process.exit(1);
+    }
+    const every = (everyArg || "month") as Every;
+    const from = parse(fromArg);
+    const to = parse(toArg);
+    if (Date.parse(from) > Date.parse(to)) {
+      console.error(`--from (${from}) is after --to (${to})`);
+      process.exit(1);
     }
-    // be a tiny bit gentle to avoid 429s on free RPCs
-    if ((mid & 7n) === 0n) await sleep(5);
+    const dates = periodEnds(from, to, every);
+    if (dates.length === 0) {
+      console.error(`No ${every} ends between ${from} and ${to}`);
+      process.exit(1);
+    }
+    return { dates, outName: `balances_${from.slice(0, 10)}_to_${to.slice(0, 10)}_${every}` };
   }
-  return low;
-}
 
-async function getEthUsdOnDate(dateIso: string): Promise<number> {
-  // CoinGecko wants DD-MM-YYYY
-  const d = new Date(dateIso);
-  const dd = String(d.getUTCDate()).padStart(2, "0");
-  const mm = String(d.getUTCMonth() + 1).padStart(2, "0");
-  const yyyy = d.getUTCFullYear();
-  const dateStr = `${dd}-${mm}-${yyyy}`;
-
-  const { data } = await axios.get(
-    `https://api.coingecko.com/api/v3/coins/ethereum/history?date=${dateStr}&localization=false`,
-    { timeout: 15000 },
-  );
-  const price = data?.market_data?.current_price?.usd;
-  if (typeof price !== "number") throw new Error("Failed to fetch ETH/USD price");
-  return price;
+  if (dateArg) {
+    const date = parse(dateArg);
+    return { dates: [date], outName: `snapshot_${date.slice(0, 10)}` };
+  }
+  return { dates: [DATE_ISO], outName: "eoy_2024" };
 }
 
-// Generic CoinGecko price fetch (by coin id) with simple in-memory cache
-const priceCache = new Map<string, number>();
-
-async function getUsdOnDateByCoinId(
-  coinId: string,
-  dateIso: string,
-): Promise<number | null> {
-  const cacheKey = `${coinId}::${dateIso}`;
-  if (priceCache.has(cacheKey)) return priceCache.get(cacheKey)!;
+type Client = ReturnType<typeof createPublicClient>;
+
+export const SNAPSHOT_COLUMNS = [
+  "date_iso",
+  "chain",
+  "block_number",
+  "wallet",
+  "wallet_name", // ENS name / Basename the wallet was listed as
+  "wallet_label",
+  "wallet_groups", // ;-separated
+  "asset_type", // native | erc20 | lending | lp
+  "protocol", // lending / lp rows: aave-v3, aerodrome, velodrome, ...
+  "symbol",
+  "token_address",
+  "position_token", // lending / lp rows: the aToken, debt token or LP token actually held
+  "token_decimals",
+  "balance", // exact
+  "balance_raw", // base units (wei for the native asset)
+  "usd_price_on_date",
+  "usd_value",
+  "price_source", // provider that priced the row (coingecko, file, pegged); empty when unpriced
+  "flags", // discovered = not in the configured token list; unpriced = no USD price
+];
 
-  const d = new Date(dateIso);
-  const dd = String(d.getUTCDate()).padStart(2, "0");
-  const mm = String(d.getUTCMonth() + 1).padStart(2, "0");
-  const yyyy = d.getUTCFullYear();
-  const dateStr = `${dd}-${mm}-${yyyy}`;
+/** Chains, clients and wallets a snapshot reads, with block lookups shared across dates (and API requests). */
+export type SnapshotContext = {
+  parsed: ParsedWallets;
+  pricer: Pricer;
+  coingeckoIds: Record<string, string>;
+  chains: ChainCfg[];
+  clients: Map<string, Client>;
+  walletsFor(chain: ChainCfg): Address[];
+  blockAt(chain: ChainCfg, ts: number): Promise<bigint>;
+  discovered: Map<string, Map<Address, DiscoveredToken[]>>; // --discover results per chain and wallet
+  multicallChunk: number;
+  withPositions: boolean;
+  concurrency: number; // chains read at once
+  log(msg: string): void; // progress lines
+};
 
-  try {
-    const { data } = await axios.get(
-      `https://api.coingecko.com/api/v3/coins/${coinId}/history?date=${dateStr}&localization=false`,
-      { timeout: 15000 },
+/** Set up clients for the chains in scope; throws when one of them has no usable RPC URL. */
+export function snapshotContext(
+  config: Config,
+  parsed: ParsedWallets,
+  pricer: Pricer,
+  opts: { multicallChunk: number; withPositions: boolean; concurrency?: number; log?: (msg: string) => void },
+): SnapshotContext {
+  const { scoped, unscoped } = parsed;
+  const anyScoped = Array.from(scoped.values()).some((arr) => arr.length > 0);
+  // If any scoped wallets are provided, only run for chains that have scoped wallets
+  const chains = config.chains.filter((c) => !anyScoped || (scoped.get(c.name) ?? []).length > 0);
+  const missingRpc = chains.filter((c) => !c.rpc || looksLikePlaceholder(c.rpc));
+  if (missingRpc.length > 0) {
+    throw new Error(
+      `Set real RPC URLs (no '/KEY' placeholders) for: ${missingRpc.map((c) => c.name).join(", ")} ` +
+        "(RPC_BASE / RPC_OP / RPC_<CHAIN> env or chains.<name>.rpc in the config).",
     );
-    const price = data?.market_data?.current_price?.usd;
-    if (typeof price === "number") {
-      priceCache.set(cacheKey, price);
-      return price;
-    }
-    return null;
-  } catch {
-    return null;
   }
+  const clients = new Map(chains.map((c) => [c.name, createPublicClient({ transport: rpcTransport(c.rpc) })]));
+
+  // Block per chain per timestamp (discovery and the date loop share lookups)
+  const blockCache = new Map<string, bigint>();
+  return {
+    parsed,
+    pricer,
+    coingeckoIds: coingeckoIdsByAddress(config),
+    chains,
+    clients,
+    walletsFor: (chain) => [...(scoped.get(chain.name) ?? []), ...(!anyScoped ? unscoped : [])],
+    async blockAt(chain, ts) {
+      const key = `${chain.name}|${ts}`;
+      let block = blockCache.get(key);
+      if (block == null) {
+        block = await resolveBlockAtTime(clients.get(chain.name)!, chain.chainId, ts);
+        blockCache.set(key, block);
+      }
+      return block;
+    },
+    discovered: new Map(),
+    multicallChunk: opts.multicallChunk,
+    withPositions: opts.withPositions,
+    concurrency: opts.concurrency ?? 1,
+    log: opts.log ?? ((msg) => console.log(msg)),
+  };
 }
 
-function toFixed(n: number, d = 6) {
-  return Number.isFinite(n) ? n.toFixed(d) : "NaN";
-}
-
-// --- CSV helpers
-function csvEscape(value: string): string {
-  if (value == null) return "";
-  const needsQuotes = /[",\n]/.test(value);
-  const escaped = value.replace(/"/g, '""');
-  return needsQuotes ? `"${escaped}"` : escaped;
-}
-
-function toCsvLine(columns: (string | number | null | undefined)[]): string {
-  return columns
-    .map((c) => (typeof c === "number" ? String(c) : c ?? ""))
-    .map(csvEscape)
-    .join(",");
-}
-
-async function main() {
-  if (
-    !RPC.base ||
-    !RPC.op ||
-    looksLikePlaceholder(RPC.base) ||
-    looksLikePlaceholder(RPC.op)
-  ) {
-    console.error(
-      "Set RPC_BASE and RPC_OP to real provider URLs (no '/KEY' placeholders).",
-    );
-    process.exit(1);
+/** Balance rows for every chain and wallet in `ctx` at one date: native, tokens and (opt-in) protocol positions. */
+export async function snapshotRows(ctx: SnapshotContext, dateIso: string): Promise<Row[]> {
+  const rows: Row[] = [];
+  const walletCells = (wallet: Address) => {
+    const w = walletInfo(ctx.parsed, wallet);
+    return [wallet, w.name, w.label, w.groups.join(";")];
+  };
+  const rowOf = (cells: string[]): Row => Object.fromEntries(SNAPSHOT_COLUMNS.map((h, i) => [h, cells[i] ?? ""]));
+
+  const targetTs = Math.floor(new Date(dateIso).getTime() / 1000);
+  ctx.log(`\nSnapshot @ ${dateIso} (ts=${targetTs})`);
+  if (targetTs * 1000 > Date.now()) {
+    console.warn(`[warn] ${dateIso} is in the future; balances are as of the latest block`);
   }
 
-  const { scoped, unscoped } = parseWallets(RAW_WALLETS);
-  const anyScoped = Object.values(scoped).some((arr) => arr.length > 0);
-
-  if (!anyScoped && unscoped.length === 0) {
-    console.error(
-      "Set WALLETS in .env (comma-separated). Supports 'base:0x..' or 'optimism|op:0x..' or plain '0x..'",
-    );
-    process.exit(1);
+  // Native asset USD per chain (ETH on most L2s, POL on Polygon, ...)
+  const nativeUsdMap = new Map<string, PriceQuote | null>();
+  for (const chain of ctx.chains) {
+    const quote = await ctx.pricer({
+      dateIso,
+      symbol: chain.nativeSymbol,
+      coinId: chain.nativeCoingeckoId || null,
+      address: null,
+      listed: true,
+    });
+    nativeUsdMap.set(chain.name, quote);
+    if (quote) ctx.log(`${chain.nativeSymbol}/USD (${quote.source}): ${quote.usd}`);
+    else ctx.log(`${chain.nativeSymbol}/USD price unavailable. Proceeding without USD columns.`);
   }
 
-  const targetTs = Math.floor(new Date(DATE_ISO).getTime() / 1000);
-  const ethUsd = await getEthUsdOnDate(DATE_ISO).catch(() => null);
-
-  console.log(`\nSnapshot @ ${DATE_ISO} (ts=${targetTs})`);
-  if (ethUsd) console.log(`ETH/USD (CoinGecko): ${ethUsd}`);
-  else console.log("ETH/USD price unavailable (CoinGecko). Proceeding without USD columns.");
-
-  // Pre-fetch USD prices for all unique token addresses on this date
-  const uniqueAddresses = new Set<string>();
-  for (const list of Object.values(TOKENS)) {
-    for (const t of list) uniqueAddresses.add(t.address.toLowerCase());
+  // Pre-fetch USD prices for all unique token addresses (configured and discovered) on this date
+  const uniqueTokens = new Map<string, { symbol: string; address: string }>();
+  const listed = new Set<string>();
+  for (const chain of ctx.chains) {
+    const found = Array.from(ctx.discovered.get(chain.name)?.values() ?? []).flat();
+    for (const t of [...chain.tokens, ...found]) uniqueTokens.set(t.address.toLowerCase(), t);
+    for (const t of chain.tokens) listed.add(t.address.toLowerCase());
   }
-  const addressUsdMap = new Map<string, number | null>();
-  await Promise.all(
-    Array.from(uniqueAddresses).map(async (addrLc) => {
-      const coinId = COINGECKO_IDS_BY_ADDRESS[addrLc];
-      const usd = coinId ? await getUsdOnDateByCoinId(coinId, DATE_ISO) : null;
-      if (usd == null) {
-        console.log(`[warn] no USD price for ${addrLc} on ${DATE_ISO}`);
-      }
-      addressUsdMap.set(addrLc, usd);
-    }),
-  );
-
-  // CSV rows accumulator
-  const csvRows: string[] = [];
-  const header = [
-    "date_iso",
-    "chain",
-    "block_number",
-    "wallet",
-    "asset_type",
-    "symbol",
-    "token_address",
-    "token_decimals",
-    "balance",
-    "usd_price_on_date",
-    "usd_value",
-  ];
-  csvRows.push(toCsvLine(header));
-
-  for (const chain of CHAINS) {
-    // If any scoped wallets are provided, only run for chains that have scoped wallets
-    if (anyScoped && scoped[chain.name].length === 0) continue;
-    const client = createPublicClient({ transport: http(chain.rpc) });
-
-    const block = await resolveBlockAtTime(client, targetTs);
+  const addressUsdMap = new Map<string, PriceQuote | null>();
+  const fetchQuote = async (addrLc: string, symbol: string) => {
+    const quote = await ctx.pricer({
+      dateIso,
+      symbol,
+      coinId: ctx.coingeckoIds[addrLc] ?? null,
+      address: addrLc,
+      listed: listed.has(addrLc),
+    });
+    if (quote == null) {
+      ctx.log(`[warn] no USD price for ${symbol} (${addrLc}) on ${dateIso}`);
+    }
+    addressUsdMap.set(addrLc, quote);
+    return quote;
+  };
+  await Promise.all(Array.from(uniqueTokens).map(([addrLc, t]) => fetchQuote(addrLc, t.symbol)));
+  // Underlying tokens of protocol positions are only known once they're read
+  const tokenQuote = async (address: string, symbol: string) => {
+    const addrLc = address.toLowerCase();
+    return addressUsdMap.has(addrLc) ? addressUsdMap.get(addrLc)! : fetchQuote(addrLc, symbol);
+  };
+
+  // Chains run side by side up to --concurrency; each one's rows and log lines stay together, in chain order
+  const chainRows = async (chain: ChainCfg) => {
+    const out: Row[] = [];
+    const lines: string[] = [];
+    const log = ctx.concurrency > 1 ? (line: string) => lines.push(line) : ctx.log;
+    const pushRow = (cells: string[]) => out.push(rowOf(cells));
+    const client = ctx.clients.get(chain.name)!;
+
+    const block = await ctx.blockAt(chain, targetTs);
     const blockHex = "0x" + block.toString(16);
 
-    console.log(`\n=== ${chain.name.toUpperCase()} — block ${block} (${blockHex}) ===`);
+    log(`\n=== ${chain.name.toUpperCase()} — block ${block} (${blockHex}) ===`);
 
-    const walletsForChain: Address[] = [
-      ...scoped[chain.name],
-      ...(!anyScoped ? unscoped : []),
+    const walletsForChain = ctx.walletsFor(chain);
+    const tokensFor = (wallet: Address) => [
+      ...chain.tokens.map((t) => ({ ...t, discovered: false })),
+      ...(ctx.discovered.get(chain.name)?.get(wallet) ?? []).map((t) => ({ ...t, discovered: true })),
     ];
+    const nativeQuote = nativeUsdMap.get(chain.name) ?? null;
+    const ethUsd = nativeQuote?.usd ?? null;
+    const nativeSymbol = chain.nativeSymbol;
+
+    // One batched read per chain/date: native + every token for every wallet
+    const calls: BalanceCall[] = walletsForChain.flatMap((wallet) => [
+      { wallet, token: null },
+      ...tokensFor(wallet).map((t) => ({ wallet, token: t.address })),
+    ]);
+    const balances = await readBalances(client, calls, {
+      blockNumber: block,
+      multicall3: chain.multicall3,
+      chunkSize: ctx.multicallChunk,
+      label: chain.name,
+    });
+    let next = 0;
 
     for (const wallet of walletsForChain) {
-      console.log(`wallet=${wallet} | date=${DATE_ISO} | block=${block}`);
-      // Native ETH balance and USD
-      const ethWei = await client.getBalance({ address: wallet, blockNumber: block });
-      const eth = Number(formatEther(ethWei));
+      log(`wallet=${wallet} | date=${dateIso} | block=${block}`);
+      // Native balance and USD
+      const ethWei = balances[next++]!;
+      const eth = formatAmount(ethWei, chain.nativeDecimals);
+      const ethValue = ethUsd != null ? formatUsd(usdValue(eth, ethUsd)) : "";
       if (ethUsd) {
-        console.log(`ETH=${toFixed(eth, 6)} | ETH/USD=${toFixed(eth * ethUsd, 2)}`);
+        log(`${nativeSymbol}=${eth} | ${nativeSymbol}/USD=${ethValue}`);
       } else {
-        console.log(`ETH=${toFixed(eth, 6)}`);
+        log(`${nativeSymbol}=${eth}`);
       }
 
-      // Push native ETH row
-      csvRows.push(
-        toCsvLine([
-          DATE_ISO,
-          chain.name,
-          String(block),
-          wallet,
-          "native",
-          "ETH",
-          "",
-          "18",
-          eth.toFixed(6),
-          ethUsd != null ? toFixed(ethUsd, 2) : "",
-          ethUsd != null ? toFixed(eth * ethUsd, 2) : "",
-        ]),
-      );
-      for (const token of TOKENS[chain.name]) {
-        const raw = (await client.readContract({
-          address: token.address as Address,
-          abi: ERC20_ABI,
-          functionName: "balanceOf",
-          args: [wallet],
-          blockNumber: block,
-        })) as bigint;
-
-        const balance = Number(formatUnits(raw, token.decimals));
-        const usd = addressUsdMap.get(token.address.toLowerCase()) ?? null;
+      // Push native row
+      pushRow([
+        dateIso,
+        chain.name,
+        String(block),
+        ...walletCells(wallet),
+        "native",
+        "",
+        nativeSymbol,
+        "",
+        "",
+        String(chain.nativeDecimals),
+        eth,
+        String(ethWei),
+        ethUsd != null ? formatPrice(ethUsd, 2) : "",
+        ethValue,
+        nativeQuote?.source ?? "",
+        ethUsd != null ? "" : "unpriced",
+      ]);
+      for (const token of tokensFor(wallet)) {
+        const raw = balances[next++]!;
+        // Discovered tokens only show up when the wallet actually holds them
+        if (token.discovered && raw === 0n) continue;
+
+        const balance = formatAmount(raw, token.decimals);
+        const quote = addressUsdMap.get(token.address.toLowerCase()) ?? null;
+        const usd = quote?.usd ?? null;
+        const value = usd != null ? formatUsd(usdValue(balance, usd)) : "";
         if (usd != null) {
-          const usdVal = balance * usd;
-          console.log(`${token.symbol}=${balance.toFixed(6)} | usd=${toFixed(usdVal, 2)}`);
+          log(`${token.symbol}=${balance} | usd=${value}`);
         } else {
-          console.log(`${token.symbol}=${balance.toFixed(6)}`);
+          log(`${token.symbol}=${balance}`);
         }
 
         // Push ERC20 row
-        csvRows.push(
-          toCsvLine([
-            DATE_ISO,
-            chain.name,
-            String(block),
-            wallet,
-            "erc20",
-            token.symbol,
-            token.address,
-            String(token.decimals),
-            balance.toFixed(6),
-            usd != null ? toFixed(usd, 6) : "",
-            usd != null ? toFixed(balance * usd, 2) : "",
-          ]),
-        );
+        pushRow([
+          dateIso,
+          chain.name,
+          String(block),
+          ...walletCells(wallet),
+          "erc20",
+          "",
+          token.symbol,
+          token.address,
+          "",
+          String(token.decimals),
+          balance,
+          String(raw),
+          usd != null ? formatPrice(usd, 6) : "",
+          value,
+          quote?.source ?? "",
+          [token.discovered ? "discovered" : "", usd != null ? "" : "unpriced"].filter(Boolean).join(";"),
+        ]);
       }
     }
+
+    if (!ctx.withPositions) return { out, lines };
+    const positions = await readPositions({ client, chain, wallets: walletsForChain, blockNumber: block, chunkSize: ctx.multicallChunk });
+    log(`${chain.name}: ${positions.length} protocol position rows`);
+    for (const p of positions) {
+      const balance = formatAmount(p.raw, p.decimals);
+      const quote = await tokenQuote(p.tokenAddress, p.symbol);
+      const usd = quote?.usd ?? null;
+      pushRow([
+        dateIso,
+        chain.name,
+        String(block),
+        ...walletCells(p.wallet),
+        p.assetType,
+        p.protocol,
+        p.symbol,
+        p.tokenAddress,
+        p.positionToken,
+        String(p.decimals),
+        balance,
+        String(p.raw),
+        usd != null ? formatPrice(usd, 6) : "",
+        usd != null ? formatUsd(usdValue(balance, usd)) : "",
+        quote?.source ?? "",
+        [...p.flags, usd != null ? "" : "unpriced"].filter(Boolean).join(";"),
+      ]);
+    }
+    return { out, lines };
+  };
+  for (const r of await mapConcurrent(ctx.chains, ctx.concurrency, chainRows)) {
+    r.lines.forEach((line) => ctx.log(line));
+    rows.push(...r.out);
   }
+  return rows;
+}
 
-  // Ensure output directory exists and write CSV
+export async function main(argv: string[]) {
+  const args = readArgs(command, argv);
+  // Recording and replaying bypass the cache so every external response is captured / served
+  const record = args.str("record");
+  const replay = args.str("replay");
+  configureCache({
+    enabled: !args.flag("no-cache") && !record && !replay,
+    dir: args.str("cacheDir"),
+  });
+  try {
+    configureTransport({ record, replay });
+  } catch (e: any) {
+    console.error(e?.message || String(e));
+    process.exit(1);
+  }
+  let config: Config;
+  let parsed: ParsedWallets;
+  let pricer: Pricer;
+  let format: OutputFormat;
+  try {
+    format = parseFormat(args.str("format"));
+    if (TRANSFER_FORMATS.includes(format)) throw new Error(`--format=${format} is for transfer outputs (inbound); snapshot supports csv, json and ndjson`);
+    config = await loadConfig(args.str("config"));
+    configureLimits(config.limits);
+    pricer = await pricerFromConfig(
+      applyPriceArgs(config.prices, { order: args.str("prices"), file: args.str("priceFile") }),
+    );
+  } catch (e: any) {
+    console.error(e?.message || String(e));
+    process.exit(1);
+  }
+  const { dates, outName } = resolveSnapshotDates(args);
+  const lastTs = Math.floor(new Date(dates[dates.length - 1]!).getTime() / 1000);
+  try {
+    // ENS names / Basenames resolve at the (last) snapshot date, so a name that later moved still
+    // reports the wallet it pointed to then
+    const raw = rawWallets(config);
+    const names = walletNames(raw);
+    const resolved = names.length > 0
+      ? await resolveNames(names, config, { blockAt: (client, chainId) => resolveBlockAtTime(client, chainId, lastTs) })
+      : undefined;
+    parsed = parseWallets(raw, config, resolved);
+  } catch (e: any) {
+    console.error(e?.shortMessage || e?.message || String(e));
+    process.exit(1);
+  }
+  const multicallChunk = args.num("multicallChunk");
+  const discover = args.flag("discover");
+  const withPositions = args.flag("positions");
+  const discoverMaxPages = args.num("maxPages");
+  if (discover && !ETHERSCAN_API_KEY) {
+    console.error("Set ETHERSCAN_API_KEY in .env for token discovery (--discover=1).");
+    process.exit(1);
+  }
+
+  const { scoped, unscoped } = parsed;
+  const anyScoped = Array.from(scoped.values()).some((arr) => arr.length > 0);
+
+  if (!anyScoped && unscoped.length === 0) {
+    console.error(
+      "Set WALLETS in .env or `wallets` in the config (comma-separated). Supports '<chain>:0x..' (e.g. base, op, arbitrum) or plain '0x..'",
+    );
+    process.exit(1);
+  }
+
+  let ctx: SnapshotContext;
+  try {
+    ctx = snapshotContext(config, parsed, pricer, { multicallChunk, withPositions, concurrency: args.num("concurrency") });
+  } catch (e: any) {
+    console.error(e?.message || String(e));
+    process.exit(1);
+  }
+
+  if (dates.length > 1) {
+    console.log(`\nBalance series: ${dates.length} dates from ${dates[0]} to ${dates[dates.length - 1]}`);
+  }
+
+  // Opt-in: tokens each wallet ever transferred up to the last snapshot date
+  if (discover) {
+    await mapConcurrent(ctx.chains, ctx.concurrency, async (chain) => {
+      const block = await ctx.blockAt(chain, lastTs);
+      console.log(`\nDiscovering tokens on ${chain.name} up to block ${block}...`);
+      const client = ctx.clients.get(chain.name)!;
+      // aTokens, debt and LP tokens are reported as positions; as discovered tokens they'd count twice
+      const exclude = withPositions
+        ? await positionTokens({ client, chain, blockNumber: block, chunkSize: ctx.multicallChunk })
+        : new Set<string>();
+      const byWallet = await discoverTokens(client, chain, ctx.walletsFor(chain), block, {
+        maxPages: discoverMaxPages,
+        finalized: isFinalizedTs(lastTs),
+        exclude,
+      });
+      const count = new Set(Array.from(byWallet.values()).flat().map((t) => t.address.toLowerCase())).size;
+      console.log(`${chain.name}: ${count} candidate tokens beyond the configured list`);
+      ctx.discovered.set(chain.name, byWallet);
+    });
+  }
+
+  const rows: Row[] = [];
+  for (const dateIso of dates) rows.push(...await snapshotRows(ctx, dateIso));
+
+  // Ensure output directory exists and write the rows in the requested format
   const outDir = "csvs";
-  const outFile = `${outDir}/eoy_2024.csv`;
+  const outFile = outputPath(`${outDir}/${outName}`, format);
   await mkdir(outDir, { recursive: true });
-  await writeFile(outFile, csvRows.join("\n"), "utf8");
-  console.log(`\nWrote ${csvRows.length - 1} data rows to ./${outFile}`);
+  const writer = openRowWriter(outFile, format, SNAPSHOT_COLUMNS);
+  for (const row of rows) await writer.write(row);
+  await writer.close();
+  console.log(`\nWrote ${rows.length} data rows to ./${outFile}`);
+
+  // Totals per wallet group, chain and asset for each date
+  const summary: Summary = {};
+  for (const r of rows) {
+    addToSummary(summary, {
+      period: r.date_iso!,
+      chain: r.chain!,
+      asset: r.symbol!,
+      groups: r.wallet_groups ? r.wallet_groups.split(";") : [],
+      amount: r.balance!,
+      usd: r.usd_value || null,
+    });
+  }
+  const sRows = summaryRows(summary);
+  printSummary(sRows);
+  const summaryFile = await writeSummary(`${outDir}/${outName}`, sRows);
+  console.log(`Wrote ${sRows.length} summary rows to ./${summaryFile}`);
+  printThroughput();
 }
 
-main().catch((e) => {
-  console.error(e);
-  process.exit(1);
-});
+if (isEntryPoint(import.meta.url)) {
+  main(process.argv.slice(2)).catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,19 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { formatAmount, formatUsd, toRaw, usdValue } from "../lib/amounts.mjs";
+
+test("base units format exactly, including dust and large balances", () => {
+  assert.equal(formatAmount(1n, 18), "0.000000000000000001");
+  assert.equal(formatAmount(123456789_123456789012345678n, 18), "123456789.123456789012345678");
+  assert.equal(formatAmount(-1500000n, 6), "-1.5");
+  assert.equal(toRaw("0x10"), 16n);
+  assert.equal(toRaw("not a number"), 0n);
+});
+
+test("USD values round half up to the cent from the exact amount", () => {
+  assert.equal(formatUsd(usdValue("123456789.123456789012345678", 3332.18)), "411380243581.40");
+  assert.equal(formatUsd(usdValue("0.005", 1)), "0.01");
+  // 1.005 * 1 is 1.00499999... as a float
+  assert.equal(formatUsd(usdValue("1.005", 1)), "1.01");
+});
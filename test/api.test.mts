@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import { test } from "node:test";
+
+import { ApiError, createApiHandler, startApiServer, type ApiBackend, type BalanceQuery, type TransferQuery } from "../lib/api.mjs";
+import { accountRows } from "../lib/etherscan.mjs";
+import { HttpError } from "../lib/transport.mjs";
+
+// Serves `count` numbered rows and records the queries it was asked
+function fakeBackend(count: number) {
+  const calls: (BalanceQuery | TransferQuery)[] = [];
+  const rows = Array.from({ length: count }, (_, i) => ({ n: i }));
+  const backend: ApiBackend = {
+    async balances(q) {
+      calls.push(q);
+      if (q.chain === "nowhere") throw new ApiError(400, "unknown_chain", "Unknown chain nowhere");
+      if (q.chain === "down") throw new HttpError({ method: "POST", url: "https://rpc.test/key" }, { status: 503, data: "", headers: {} });
+      return rows;
+    },
+    async transfers(q) {
+      calls.push(q);
+      if (q.wallet === "down") accountRows({ status: "0", message: "NOTOK", result: "Max rate limit reached" }, "tokentx");
+      return rows;
+    },
+  };
+  return { backend, calls };
+}
+
+test("pages through a query's result and fetches it once", async () => {
+  const { backend, calls } = fakeBackend(250);
+  const handle = createApiHandler(backend);
+
+  const first = await handle("GET", "/balances?date=2024-12-31&chain=base");
+  assert.equal(first.status, 200);
+  const body = first.body as any;
+  assert.equal(body.data.length, 100);
+  assert.deepEqual(body.pagination, { offset: 0, limit: 100, total: 250, next_offset: 100 });
+
+  const last = (await handle("GET", "/balances?date=2024-12-31&chain=base&offset=200&limit=100")).body as any;
+  assert.deepEqual(last.data.map((r: any) => r.n).slice(0, 2), [200, 201]);
+  assert.equal(last.pagination.next_offset, null);
+
+  assert.equal(calls.length, 1);
+  assert.deepEqual(calls[0], { date: "2024-12-31T23:59:59Z", wallet: null, chain: "base", asset: null });
+});
+
+test("bad requests get 4xx codes and upstream failures 502", async () => {
+  const { backend, calls } = fakeBackend(1);
+  const handle = createApiHandler(backend);
+  const error = async (method: string, url: string) => {
+    const res = await handle(method, url);
+    return [res.status, (res.body as any).error?.code];
+  };
+
+  assert.deepEqual(await error("GET", "/nope"), [404, "not_found"]);
+  assert.deepEqual(await error("POST", "/balances"), [405, "method_not_allowed"]);
+  assert.deepEqual(await error("GET", "/balances?date=yesterday"), [400, "invalid_parameter"]);
+  assert.deepEqual(await error("GET", "/balances?limit=5000"), [400, "invalid_parameter"]);
+  assert.deepEqual(await error("GET", "/balances?token=USDC"), [400, "invalid_parameter"]);
+  assert.deepEqual(await error("GET", "/balances?chain=nowhere"), [400, "unknown_chain"]);
+  assert.deepEqual(await error("GET", "/balances?chain=down"), [502, "upstream_error"]);
+  // An explorer error in a 200 answer is still the upstream's failure
+  assert.deepEqual(await error("GET", "/transfers?from=2024-01-01&to=2024-01-31&wallet=down"), [502, "upstream_error"]);
+  assert.deepEqual(await error("GET", "/transfers?to=2024-12-31"), [400, "missing_parameter"]);
+  assert.deepEqual(await error("GET", "/transfers?from=2024-12-31&to=2024-01-01"), [400, "invalid_parameter"]);
+
+  // A bare `from` is the start of its day; failed queries aren't cached
+  assert.equal((await handle("GET", "/transfers?from=2024-01-01&to=2024-01-31&asset=usdc")).status, 200);
+  assert.deepEqual(calls.at(-1), { from: "2024-01-01T00:00:00Z", to: "2024-01-31T23:59:59Z", wallet: null, chain: null, asset: ["USDC"] });
+  assert.equal(calls.filter((q) => "chain" in q && q.chain === "down").length, 1);
+  await handle("GET", "/balances?chain=down");
+  assert.equal(calls.filter((q) => "chain" in q && q.chain === "down").length, 2);
+});
+
+test("the server answers over HTTP with JSON", async (t) => {
+  const server = await startApiServer(fakeBackend(3).backend, { host: "127.0.0.1", port: 0 });
+  t.after(() => server.close());
+  const { port } = server.address() as AddressInfo;
+
+  const res = await fetch(`http://127.0.0.1:${port}/transfers?from=2024-01-01&limit=2`);
+  assert.equal(res.status, 200);
+  assert.match(res.headers.get("content-type") ?? "", /application\/json/);
+  const body = await res.json() as any;
+  assert.deepEqual(body.data, [{ n: 0 }, { n: 1 }]);
+  assert.equal(body.pagination.next_offset, 2);
+});
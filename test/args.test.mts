@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { ArgError, formatHelp, parseArgs, type CommandSpec } from "../lib/args.mjs";
+
+const spec: CommandSpec = {
+  name: "demo",
+  summary: "Demo command.",
+  options: [
+    { name: "year", type: "int", env: "YEAR", min: 2015, default: 2025, description: "Year" },
+    { name: "order", type: "enum", values: ["newest", "oldest"], default: "newest", description: "Order" },
+    { name: "prices", type: "list", values: ["coingecko", "file"], description: "Providers" },
+    { name: "date", type: "date", description: "Date" },
+    { name: "rpc", type: "string", description: "RPC URL" },
+    { name: "resume", type: "boolean", env: "RESUME", description: "Resume" },
+  ],
+};
+
+test("--name value and --name=value both parse, and values keep their '='", () => {
+  const args = parseArgs(spec, ["--year", "2024", "--order=oldest", "--rpc", "https://x.test/?key=a=b", "--resume"], {});
+  assert.equal(args.num("year"), 2024);
+  assert.equal(args.str("order"), "oldest");
+  assert.equal(args.str("rpc"), "https://x.test/?key=a=b");
+  assert.equal(args.flag("resume"), true);
+});
+
+test("defaults apply when an option is absent, and env vars fill in before them", () => {
+  const args = parseArgs(spec, [], { YEAR: "2023", RESUME: "true" });
+  assert.equal(args.num("year"), 2023);
+  assert.equal(args.str("order"), "newest");
+  assert.equal(args.flag("resume"), true);
+  assert.equal(args.has("order"), false);
+  assert.equal(parseArgs(spec, ["--year=2022"], { YEAR: "2023" }).num("year"), 2022);
+});
+
+test("bad values, unknown options and missing values are errors", () => {
+  assert.throws(() => parseArgs(spec, ["--year", "abc"], {}), /Invalid --year=abc \(expected an integer\)/);
+  assert.throws(() => parseArgs(spec, ["--year=2010"], {}), /at least 2015/);
+  assert.throws(() => parseArgs(spec, ["--order", "random"], {}), /expected newest\|oldest/);
+  assert.throws(() => parseArgs(spec, ["--prices=file,binance"], {}), /binance/);
+  assert.throws(() => parseArgs(spec, ["--date=2024-13-45"], {}), /YYYY-MM-DD/);
+  assert.throws(() => parseArgs(spec, ["--yaer=2024"], {}), /Unknown option --yaer/);
+  assert.throws(() => parseArgs(spec, ["--rpc"], {}), /Missing value for --rpc/);
+  assert.throws(() => parseArgs(spec, ["2024"], {}), ArgError);
+  assert.throws(() => parseArgs(spec, [], { YEAR: "soon" }), /Invalid YEAR=soon/);
+});
+
+test("help lists every option with its default and env var", () => {
+  const help = formatHelp(spec);
+  assert.match(help, /--year <int>\s+Year \(default: 2025; env: YEAR\)/);
+  assert.match(help, /--order <newest\|oldest>/);
+  assert.match(help, /--resume\s+Resume \(env: RESUME\)/);
+});
@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { test } from "node:test";
+
+import { loadConfig, validateConfig } from "../lib/config.mjs";
+import { ROOT } from "./helpers.mjs";
+
+test("unknown keys are rejected with their path, at every level", async () => {
+  const bad: [unknown, RegExp][] = [
+    [{ chains: { base: {} }, walets: [] }, /\(root\) has unknown keys: walets/],
+    [{ chains: { base: { rpcs: "https://x" } } }, /chains\.base has unknown keys: rpcs \(expected chainId, /],
+    [{ chains: { base: { tokns: [] } } }, /chains\.base has unknown keys: tokns/],
+    [{ chains: { base: { tokens: [{ symbol: "X", address: "0x0000000000000000000000000000000000000001", decimals: 6, coingecko: "x" }] } } }, /chains\.base\.tokens\[0\] has unknown keys: coingecko/],
+    [{ chains: { base: { positions: { lps: [] } } } }, /chains\.base\.positions has unknown keys: lps/],
+    [{ chains: { base: {} }, prices: { pegs: {} } }, /prices has unknown keys: pegs/],
+    [{ chains: { base: {} }, wallets: [{ address: "0x1", labels: "x" }] }, /wallets\[0\] has unknown keys: labels/],
+  ];
+  for (const [raw, message] of bad) assert.throws(() => validateConfig(raw, "test"), message);
+
+  // The shipped example stays valid
+  const example = await loadConfig(join(ROOT, "config.example.yaml"));
+  assert.deepEqual(example.chains.map((c) => c.name), ["base", "optimism"]);
+});
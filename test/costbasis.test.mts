@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+
+import { parseCsv } from "../lib/csv.mjs";
+import { runCli } from "./helpers.mjs";
+
+// Token symbols come from the explorer as-is, commas and quotes included
+const LEDGER = [
+  "date_iso,chain,wallet,direction,asset,token_address,amount,usd_price,fee_eth,hash",
+  '2024-01-01T00:00:00.000Z,base,0x1111,in,"Fake, ""USDC""",0xaaaa,10,1,,0x01',
+  '2024-06-01T00:00:00.000Z,base,0x1111,out,"Fake, ""USDC""",0xaaaa,4,2,,0x02',
+].join("\n");
+
+test("costbasis escapes asset symbols in its CSV", async () => {
+  const input = join(await mkdtemp(join(tmpdir(), "walletbalance-ledger-")), "ledger.csv");
+  await writeFile(input, LEDGER + "\n", "utf8");
+  const run = await runCli(["costbasis", `--input=${input}`]);
+  assert.equal(run.code, 0, run.stderr);
+
+  const rows = parseCsv(await readFile(join(run.cwd, "csvs", "ledger_realized_fifo.csv"), "utf8"));
+  assert.deepEqual(
+    rows.map((r) => [r.asset, r.quantity, r.cost_basis_usd, r.proceeds_usd, r.gain_usd, r.term, r.flags]),
+    [['Fake, "USDC"', "4", "4.00", "8.00", "4.00", "short", ""]],
+  );
+});
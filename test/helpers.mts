@@ -0,0 +1,32 @@
+import { spawnSync } from "node:child_process";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+export const ROOT = join(dirname(fileURLToPath(import.meta.url)), "..");
+export const FIXTURES = join(ROOT, "test", "fixtures");
+
+/**
+ * Run `walletbalance <args>` in a fresh temp directory (so its csvs/ output is isolated), or in
+ * `cwd` to continue from an earlier run's files, against recorded responses. Returns the exit
+ * code, output and working directory.
+ */
+export async function runCli(args: string[], env: Record<string, string> = {}, dir?: string) {
+  const cwd = dir ?? await mkdtemp(join(tmpdir(), "walletbalance-test-"));
+  const loader = pathToFileURL(join(ROOT, "node_modules", "ts-node", "esm.mjs")).href;
+  const { WALLETS: _w, CONFIG: _c, ...inherited } = process.env;
+  const res = spawnSync(process.execPath, ["--no-warnings", "--loader", loader, join(ROOT, "walletbalance.mts"), ...args], {
+    cwd,
+    encoding: "utf8",
+    timeout: 120_000,
+    env: {
+      ...inherited,
+      TS_NODE_PROJECT: join(ROOT, "tsconfig.json"),
+      TS_NODE_TRANSPILE_ONLY: "true",
+      ETHERSCAN_API_KEY: "test",
+      ...env,
+    },
+  });
+  return { code: res.status, stdout: res.stdout, stderr: res.stderr, cwd };
+}
@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+
+import { parseCsv } from "../lib/csv.mjs";
+import { FIXTURES, runCli } from "./helpers.mjs";
+
+// Recorded txlistinternal for 2024: a full first page (1000 rows, 100 of them to another
+// address) and a short second page with two new transfers and one repeat from page 1
+const inboundArgs = [
+  `--replay=${join(FIXTURES, "inbound")}`,
+  `--config=${join(FIXTURES, "config.yaml")}`,
+  "--year=2024",
+  "--prices=file",
+  `--priceFile=${join(FIXTURES, "prices.csv")}`,
+];
+
+test("inbound pages through the explorer, keeps inbound rows and dedupes repeats", async () => {
+  const run = await runCli(["inbound", ...inboundArgs]);
+  assert.equal(run.code, 0, run.stderr);
+
+  const rows = parseCsv(await readFile(join(run.cwd, "csvs", "2024_internal_eth.csv"), "utf8"));
+  assert.equal(rows.length, 902);
+  assert.ok(rows.every((r) => r.to === "0x1111111111111111111111111111111111111111"));
+  assert.equal(new Set(rows.map((r) => r.hash)).size, rows.length);
+
+  // page 2 rows come last and are priced from the file only when it has the day
+  const last = rows[rows.length - 1]!;
+  assert.equal(last.date_iso, "2024-12-20T11:00:00.000Z");
+  assert.equal(last.eth_usd, "");
+  assert.deepEqual([rows[0]!.value_eth, rows[0]!.value_wei, rows[0]!.eth_usd, rows[0]!.usd_value, rows[0]!.price_source], [
+    "0.001", "1000000000000000", "3400.00", "3.40", "file",
+  ]);
+
+  const totals = JSON.parse(await readFile(join(run.cwd, "csvs", "2024_internal_eth_totals.json"), "utf8"));
+  assert.equal(totals.rows, 902);
+  // Exact decimal strings; the USD total is the sum of the rounded row values
+  assert.equal(totals.amount, "2.503");
+  const usdSum = rows.reduce((sum, r) => sum + Math.round(Number(r.usd_value || 0) * 100), 0);
+  assert.equal(totals.usd_value, (usdSum / 100).toFixed(2));
+});
+
+test("inbound --format=koinly writes receives in the import template", async () => {
+  const run = await runCli(["inbound", ...inboundArgs, "--format", "koinly"]);
+  assert.equal(run.code, 0, run.stderr);
+
+  const rows = parseCsv(await readFile(join(run.cwd, "csvs", "2024_internal_eth_koinly.csv"), "utf8"));
+  assert.equal(rows.length, 902);
+  assert.deepEqual(
+    [rows[0]!.date, rows[0]!["received amount"], rows[0]!["received currency"], rows[0]!["net worth amount"]],
+    ["2024-03-01 12:00 UTC", "0.001", "ETH", "3.40"],
+  );
+});
+
+// Recorded chain as in the snapshot fixture (a block every 10 days); the window starts at block 4,
+// and the wallet held 2 ETH and 50 USDC at block 3
+// 0xaa paid 21000 gas at 1 gwei plus a 0.000004 ETH L1 data fee from its OP-stack receipt
+test("ledger running balances start from the balance held before the window", async () => {
+  const run = await runCli([
+    "inbound",
+    "--mode=ledger",
+    `--replay=${join(FIXTURES, "ledger")}`,
+    `--config=${join(FIXTURES, "config.yaml")}`,
+    "--start=2024-02-01",
+    "--end=2024-12-31T23:59:59Z",
+    "--prices=file",
+    `--priceFile=${join(FIXTURES, "prices.csv")}`,
+  ]);
+  assert.equal(run.code, 0, run.stderr);
+
+  const rows = parseCsv(await readFile(join(run.cwd, "csvs", "2024-02-01_to_2024-12-31_ledger.csv"), "utf8"));
+  assert.deepEqual(
+    rows.map((r) => [r.hash, r.direction, r.asset, r.amount, r.fee_eth, r.running_balance]),
+    [
+      ["0xaa", "out", "ETH", "0.5", "0.000025", "1.499975"],
+      ["0xbb", "in", "USDC", "100", "", "150"],
+    ],
+  );
+});
+
+// Nothing is recorded for a window ending at block 33, so every explorer request fails
+test("ledger writes nothing and exits non-zero when a wallet fails", async () => {
+  const run = await runCli([
+    "inbound",
+    "--mode=ledger",
+    `--replay=${join(FIXTURES, "ledger")}`,
+    `--config=${join(FIXTURES, "config.yaml")}`,
+    "--start=2024-02-01",
+    "--end=2024-11-30T23:59:59Z",
+    "--prices=file",
+    `--priceFile=${join(FIXTURES, "prices.csv")}`,
+  ]);
+  assert.equal(run.code, 1);
+  assert.match(run.stderr, /1 wallet\(s\) failed; no ledger written/);
+  await assert.rejects(readFile(join(run.cwd, "csvs", "2024-02-01_to_2024-11-30_ledger.csv"), "utf8"), { code: "ENOENT" });
+});
+
+// Recorded txlistinternal up to the head (block 40): three transfers at blocks 6, 12 and 30
+test("watch skips transfers delivered before a crash and clears them once the cursor is saved", async () => {
+  const cwd = await mkdtemp(join(tmpdir(), "walletbalance-test-"));
+  const csv = join(cwd, "csvs", "watch_internal_eth.csv");
+  await mkdir(join(cwd, "csvs"), { recursive: true });
+  // The previous run wrote and posted the first transfer, then died before saving its cursor
+  const firstKey = `base|0x1111111111111111111111111111111111111111|0x${"1".padStart(64, "0")}`;
+  await writeFile(`${csv}.seen`, firstKey + "\n", "utf8");
+
+  const watchArgs = [
+    "inbound",
+    "--mode=watch",
+    "--once",
+    "--start=2024-01-01",
+    "--confirmations=0",
+    `--replay=${join(FIXTURES, "watch")}`,
+    `--config=${join(FIXTURES, "config.yaml")}`,
+    "--prices=file",
+    `--priceFile=${join(FIXTURES, "prices.csv")}`,
+  ];
+  const run = await runCli(watchArgs, {}, cwd);
+  assert.equal(run.code, 0, run.stderr);
+  const rows = parseCsv(await readFile(csv, "utf8"));
+  assert.deepEqual(rows.map((r) => r.value_eth), ["0.002", "0.003"]);
+  assert.equal(await readFile(`${csv}.seen`, "utf8"), "");
+  assert.deepEqual(JSON.parse(await readFile(`${csv}.watch.json`, "utf8")).cursors, {
+    "base|0x1111111111111111111111111111111111111111|native": 40,
+  });
+
+  // Nothing new past the cursor on the next poll
+  const again = await runCli(watchArgs, {}, cwd);
+  assert.equal(again.code, 0, again.stderr);
+  assert.equal(parseCsv(await readFile(csv, "utf8")).length, 2);
+});
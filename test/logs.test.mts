@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { addressTopic, fetchTransferLogs, isRangeLimitError, TRANSFER_TOPIC, type RpcBatch, type RpcCall } from "../lib/logs.mjs";
+
+const W = "0x1111111111111111111111111111111111111111";
+const SENDER = "0x2222222222222222222222222222222222222222";
+const USDC = "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913";
+const hex = (n: number | bigint) => "0x" + n.toString(16);
+
+const transferLog = (block: number, logIndex: number, value: bigint, extraTopic = false) => ({
+  address: USDC,
+  blockNumber: hex(block),
+  transactionHash: hex(0xabc000 + block),
+  logIndex: hex(logIndex),
+  topics: [TRANSFER_TOPIC, addressTopic(SENDER), addressTopic(W), ...(extraTopic ? [hex(7)] : [])],
+  data: "0x" + value.toString(16).padStart(64, "0"),
+  removed: false,
+});
+
+// A provider that refuses more than `maxSpan` blocks per call, like most hosted RPCs
+function fakeRpc(logs: ReturnType<typeof transferLog>[], maxSpan: number) {
+  const ranges: [number, number][] = [];
+  const call: RpcCall = async (method, params) => {
+    assert.equal(method, "eth_getLogs");
+    const f = params[0] as any;
+    const [from, to] = [Number.parseInt(f.fromBlock, 16), Number.parseInt(f.toBlock, 16)];
+    if (to - from + 1 > maxSpan) throw Object.assign(new Error(`block range too large, max ${maxSpan}`), { code: -32000 });
+    ranges.push([from, to]);
+    assert.deepEqual(f.topics, [TRANSFER_TOPIC, null, addressTopic(W)]);
+    return logs.filter((l) => Number.parseInt(l.blockNumber, 16) >= from && Number.parseInt(l.blockNumber, 16) <= to);
+  };
+  const batch: RpcBatch = async (calls) => calls.map((c) => ({ timestamp: hex(1_700_000_000 + Number.parseInt(c.params[0] as string, 16) * 2) }));
+  return { call, batch, ranges };
+}
+
+test("rejected ranges are halved until they pass, then the span grows back", async () => {
+  const rpc = fakeRpc([transferLog(5, 3, 1_500_000n), transferLog(950, 1, 2n), transferLog(5, 1, 7n)], 300);
+  const rows = await fetchTransferLogs(rpc, { tokens: [USDC], to: W, fromBlock: 0, toBlock: 999, span: 1000 });
+
+  // Every block scanned exactly once
+  assert.equal(rpc.ranges.reduce((n, [a, b]) => n + b - a + 1, 0), 1000);
+  assert.ok(rpc.ranges.every(([a, b]) => b - a + 1 <= 300));
+  assert.deepEqual(rows.map((r) => [r.blockNumber, r.logIndex, r.value]), [["5", "1", "7"], ["5", "3", "1500000"], ["950", "1", "2"]]);
+  assert.deepEqual(rows[0], {
+    blockNumber: "5",
+    timeStamp: "1700000010",
+    hash: "0xabc005",
+    from: SENDER,
+    to: W,
+    value: "7",
+    contractAddress: USDC,
+    logIndex: "1",
+  });
+});
+
+test("NFT transfers are skipped and other RPC errors surface", async () => {
+  const rpc = fakeRpc([transferLog(5, 1, 7n, true)], 1000);
+  assert.deepEqual(await fetchTransferLogs(rpc, { tokens: [USDC], to: W, fromBlock: 0, toBlock: 10, span: 1000 }), []);
+
+  const broken: RpcCall = async () => { throw new Error("invalid api key"); };
+  await assert.rejects(fetchTransferLogs({ call: broken, batch: rpc.batch }, { tokens: null, to: W, fromBlock: 0, toBlock: 10, span: 5 }), /invalid api key/);
+
+  assert.ok(isRangeLimitError({ message: "query returned more than 10000 results" }));
+  assert.ok(isRangeLimitError({ code: -32005, message: "limit exceeded" }));
+  assert.ok(isRangeLimitError({ response: { status: 413 } }));
+  assert.ok(!isRangeLimitError(new Error("execution reverted")));
+});
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+
+import { parseCsv, parseCsvRows } from "../lib/csv.mjs";
+import { openRowWriter, outputPath, toCsvLine, type TransferRecord } from "../lib/output.mjs";
+
+test("CSV cells with commas, quotes and newlines round-trip", () => {
+  const cells = ["plain", "a,b", 'say "hi"', "two\nlines", ""];
+  assert.deepEqual(parseCsvRows(toCsvLine(cells) + "\n"), [cells]);
+});
+
+test("csv writer escapes cells and json writer closes its array", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "walletbalance-test-"));
+  for (const format of ["csv", "json"] as const) {
+    const w = openRowWriter(outputPath(join(dir, "out"), format), format, ["symbol", "note"]);
+    await w.write({ symbol: "USDC", note: "bridged, native" });
+    await w.write({ symbol: "OP", note: "" });
+    await w.close();
+  }
+  const csv = parseCsv(await readFile(join(dir, "out.csv"), "utf8"));
+  assert.deepEqual(csv, [{ symbol: "USDC", note: "bridged, native" }, { symbol: "OP", note: "" }]);
+  const json = JSON.parse(await readFile(join(dir, "out.json"), "utf8"));
+  assert.deepEqual(json, csv);
+});
+
+test("tax templates turn a fee-only transfer into a cost", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "walletbalance-test-"));
+  const transfer: TransferRecord = {
+    dateIso: "2024-05-02T10:20:30.000Z",
+    direction: "self",
+    amount: "0",
+    asset: "ETH",
+    fee: "0.00100000",
+    feeAsset: "ETH",
+    usdValue: "",
+    hash: "0xabc",
+    description: "base normal to 0x1",
+  };
+  const file = outputPath(join(dir, "ledger"), "koinly");
+  const w = openRowWriter(file, "koinly", []);
+  await w.write({}, transfer);
+  await w.close();
+  const [row] = parseCsv(await readFile(file, "utf8"));
+  assert.equal(row!["sent amount"], "0.00100000");
+  assert.equal(row!.label, "cost");
+  assert.equal(row!.txhash, "0xabc");
+});
@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { zeroAddress, type Address } from "viem";
+
+import { aaveV3Adapter } from "../lib/aave.mjs";
+import type { ChainCfg } from "../lib/config.mjs";
+import { discoverTokens } from "../lib/discovery.mjs";
+import { solidlyLpAdapter } from "../lib/lp.mjs";
+import { positionTokens, readPositions, type PositionContext } from "../lib/positions.mjs";
+import { axiosTransport, setTransport } from "../lib/transport.mjs";
+
+const W = "0x1111111111111111111111111111111111111111" as Address;
+const POOL = "0x000000000000000000000000000000000000000a" as Address;
+const GAUGE = "0x000000000000000000000000000000000000000b" as Address;
+const WETH = "0x4200000000000000000000000000000000000006" as Address;
+const USDC = "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913" as Address;
+const PROVIDER = "0x00000000000000000000000000000000000000c1" as Address;
+const DATA = "0x00000000000000000000000000000000000000c2" as Address;
+const A_USDC = "0x00000000000000000000000000000000000000d1" as Address;
+const DEBT_USDC = "0x00000000000000000000000000000000000000d2" as Address;
+const MEME = "0x00000000000000000000000000000000000000e1" as Address;
+
+// Answers readContract by address and function; no Multicall3, so every read goes through it
+function fakeClient(answers: Record<string, unknown>) {
+  return {
+    async readContract({ address, functionName, args }: { address: string; functionName: string; args?: unknown[] }) {
+      const key = [address.toLowerCase(), functionName, ...(args ?? []).map((a) => String(a).toLowerCase())].join("|");
+      if (!(key in answers)) throw new Error(`unexpected call ${key}`);
+      return answers[key];
+    },
+  } as unknown as PositionContext["client"];
+}
+
+const ctx = (client: PositionContext["client"], positions: ChainCfg["positions"]): PositionContext => ({
+  client,
+  chain: { name: "base", multicall3: null, positions } as ChainCfg,
+  wallets: [W],
+  blockNumber: 100n,
+  chunkSize: 500,
+});
+
+test("LP shares, held and staked, split into the pool's reserves", async () => {
+  const client = fakeClient({
+    [`${POOL}|metadata`]: [10n ** 18n, 10n ** 6n, 100n * 10n ** 18n, 300_000n * 10n ** 6n, false, WETH, USDC],
+    [`${POOL}|totalSupply`]: 1000n,
+    [`${WETH.toLowerCase()}|symbol`]: "WETH",
+    [`${WETH.toLowerCase()}|decimals`]: 18,
+    [`${USDC}|symbol`]: "USDC",
+    [`${USDC}|decimals`]: 6,
+    [`${POOL}|balanceOf|${W}`]: 30n,
+    [`${GAUGE}|balanceOf|${W}`]: 70n,
+  });
+  const positions = await solidlyLpAdapter.read(ctx(client, { aave: null, lp: [{ pool: POOL, gauge: GAUGE, protocol: "aerodrome" }] }));
+  assert.deepEqual(
+    positions.map((p) => [p.assetType, p.protocol, p.symbol, p.decimals, p.raw, p.flags]),
+    [
+      ["lp", "aerodrome", "WETH", 18, 10n * 10n ** 18n, ["staked"]],
+      ["lp", "aerodrome", "USDC", 6, 30_000n * 10n ** 6n, ["staked"]],
+    ],
+  );
+});
+
+test("Aave supplies are positive and debts negative, in underlying units", async () => {
+  const client = fakeClient({
+    [`${PROVIDER}|getPoolDataProvider`]: DATA,
+    [`${DATA}|getAllReservesTokens`]: [{ symbol: "USDC", tokenAddress: USDC }],
+    [`${DATA}|getReserveTokensAddresses|${USDC}`]: [A_USDC, zeroAddress, DEBT_USDC],
+    [`${DATA}|getReserveConfigurationData|${USDC}`]: [6n, 0n, 0n, 0n, 0n, true, true, false, true, false],
+    [`${A_USDC}|balanceOf|${W}`]: 1_500_000n,
+    [`${DEBT_USDC}|balanceOf|${W}`]: 250_000n,
+  });
+  const positions = await readPositions(ctx(client, { aave: PROVIDER, lp: [] }));
+  assert.deepEqual(
+    positions.map((p) => [p.assetType, p.symbol, p.positionToken, p.raw, p.flags]),
+    [
+      ["lending", "USDC", A_USDC, 1_500_000n, []],
+      ["lending", "USDC", DEBT_USDC, -250_000n, ["debt"]],
+    ],
+  );
+  assert.equal(aaveV3Adapter.enabled({ positions: { aave: null, lp: [] } } as unknown as ChainCfg), false);
+});
+
+test("with positions read, discovery leaves aTokens, debt, LP and gauge tokens to the position rows", async (t) => {
+  // The wallet's tokentx history touches every position token plus one plain token
+  setTransport(async (req) => {
+    assert.equal(req.params?.action, "tokentx");
+    const result = [A_USDC, DEBT_USDC, POOL, GAUGE, MEME].map((a, i) => ({
+      contractAddress: a,
+      tokenSymbol: ["aBasUSDC", "variableDebtBasUSDC", "vAMM-WETH/USDC", "gauge", "MEME"][i],
+      tokenDecimal: "18",
+    }));
+    return { status: 200, data: { status: "1", message: "OK", result }, headers: {} };
+  });
+  t.after(() => setTransport(axiosTransport));
+
+  const client = fakeClient({
+    [`${PROVIDER}|getPoolDataProvider`]: DATA,
+    [`${DATA}|getAllReservesTokens`]: [{ symbol: "USDC", tokenAddress: USDC }],
+    [`${DATA}|getReserveTokensAddresses|${USDC}`]: [A_USDC, zeroAddress, DEBT_USDC],
+    [`${DATA}|getReserveConfigurationData|${USDC}`]: [6n, 0n, 0n, 0n, 0n, true, true, false, true, false],
+  });
+  const chain = {
+    name: "base",
+    explorerChainId: 8453,
+    multicall3: null,
+    tokens: [],
+    positions: { aave: PROVIDER, lp: [{ pool: POOL, gauge: GAUGE, protocol: "aerodrome" }] },
+  } as unknown as ChainCfg;
+  const { wallets: _w, ...at } = ctx(client, chain.positions);
+  const exclude = await positionTokens({ ...at, chain });
+  assert.deepEqual(Array.from(exclude).sort(), [POOL, GAUGE, A_USDC, DEBT_USDC].sort());
+
+  const found = await discoverTokens(client, chain, [W], 100n, { maxPages: 1, finalized: false, exclude });
+  assert.deepEqual(found.get(W)?.map((t) => [t.address, t.symbol]), [[MEME, "MEME"]]);
+});
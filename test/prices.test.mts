@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+
+import { DEFAULT_PEGS, validateConfig } from "../lib/config.mjs";
+import { createPricer, peggedProvider, priceFileProvider } from "../lib/prices.mjs";
+
+const USDC_BASE = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const SPAM = "0x9999999999999999999999999999999999999999";
+
+test("pegs match CoinGecko ids and token addresses, never a bare symbol", async () => {
+  const price = createPricer([peggedProvider({ ...DEFAULT_PEGS, [USDC_BASE]: 1 })]);
+  const day = "2024-12-31T00:00:00.000Z";
+  assert.deepEqual(await price({ dateIso: day, symbol: "USDC", coinId: "usd-coin", address: null, listed: true }), { usd: 1, source: "pegged" });
+  assert.deepEqual(await price({ dateIso: day, symbol: "X", coinId: null, address: USDC_BASE.toLowerCase(), listed: true }), { usd: 1, source: "pegged" });
+  assert.equal(await price({ dateIso: day, symbol: "USDC", coinId: null, address: SPAM, listed: false }), null);
+  assert.equal(await price({ dateIso: day, symbol: "DAI", coinId: null, address: SPAM, listed: false }), null);
+});
+
+test("the config rejects pegs keyed by symbol", () => {
+  const config = (pegged: Record<string, number>) => ({ chains: { base: {} }, prices: { pegged } });
+  assert.deepEqual(validateConfig(config({ "usd-coin": 1, [USDC_BASE]: 1 }), "test").prices.pegged, {
+    "usd-coin": 1,
+    [USDC_BASE.toLowerCase()]: 1,
+  });
+  assert.throws(() => validateConfig(config({ USDC: 1 }), "test"), /prices\.pegged\.USDC must be keyed by a CoinGecko id or token address/);
+});
+
+test("price file symbols only match listed assets", async () => {
+  const path = join(await mkdtemp(join(tmpdir(), "walletbalance-prices-")), "prices.csv");
+  await writeFile(path, "date,asset,price\n2024-12-31,USDC,1\n2024-12-31,ETH,3300\n", "utf8");
+  const price = createPricer([await priceFileProvider(path)]);
+  const day = "2024-12-31T00:00:00.000Z";
+  assert.deepEqual(await price({ dateIso: day, symbol: "ETH", coinId: null, address: null, listed: true }), { usd: 3300, source: "file" });
+  assert.deepEqual(await price({ dateIso: day, symbol: "USDC", coinId: null, address: USDC_BASE.toLowerCase(), listed: true }), { usd: 1, source: "file" });
+  assert.equal(await price({ dateIso: day, symbol: "USDC", coinId: null, address: SPAM, listed: false }), null);
+});
+
+test("a malformed JSON price file names the file", async () => {
+  const path = join(await mkdtemp(join(tmpdir(), "walletbalance-prices-")), "prices.json");
+  await writeFile(path, '[{"date": "2024-12-31", "asset": "ETH", "price": 3300},]', "utf8");
+  await assert.rejects(priceFileProvider(path), (e: Error) => e.message.startsWith(`Cannot parse price file ${path}: `));
+});
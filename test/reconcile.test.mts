@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import type { ChainCfg } from "../lib/config.mjs";
+import { fetchAccountPages } from "../lib/etherscan.mjs";
+import { toLedgerEntries } from "../lib/ledger.mjs";
+import { reconcile, sumFlows } from "../lib/reconcile.mjs";
+import { axiosTransport, setTransport } from "../lib/transport.mjs";
+
+const ME = "0x1111111111111111111111111111111111111111";
+const OTHER = "0x2222222222222222222222222222222222222222";
+const USDC = "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913";
+const base = { name: "base", nativeSymbol: "ETH", nativeDecimals: 18 } as ChainCfg;
+const native = { symbol: "ETH", decimals: 18 };
+
+const tx = (o: Record<string, string>) => ({ timeStamp: "1700000000", blockNumber: "100", isError: "0", ...o });
+
+const entries = [
+  ...toLedgerEntries(base, ME, "normal", [
+    tx({ hash: "0xa", from: OTHER, to: ME, value: "2000000000000000000", gasUsed: "21000", gasPrice: "1000" }),
+    tx({ hash: "0xb", from: ME, to: OTHER, value: "500000000000000000", gasUsed: "21000", gasPrice: "1000" }),
+    // Self send: no net movement, gas only
+    tx({ hash: "0xc", from: ME, to: ME, value: "100", gasUsed: "30000", gasPrice: "1000" }),
+    // Failed tx: value didn't move but gas was paid
+    tx({ hash: "0xd", from: ME, to: OTHER, value: "7", gasUsed: "50000", gasPrice: "1000", isError: "1" }),
+  ]),
+  ...toLedgerEntries(base, ME, "token", [
+    tx({ hash: "0xe", from: OTHER, to: ME, value: "250500000", contractAddress: USDC, tokenSymbol: "USDC", tokenDecimal: "6", logIndex: "3" }),
+  ]),
+];
+
+test("flows sum per asset in base units, with every fee on the native asset", () => {
+  const flows = sumFlows(entries, native);
+  const eth = flows.get("native")!;
+  assert.equal(eth.inflow, 2_000000000000000000n);
+  assert.equal(eth.outflow, 500000000000000000n);
+  assert.equal(eth.gas, (21000n + 30000n + 50000n) * 1000n);
+  assert.equal(eth.transfers, 4);
+  const usdc = flows.get(USDC)!;
+  assert.deepEqual([usdc.symbol, usdc.decimals, usdc.inflow, usdc.outflow, usdc.gas], ["USDC", 6, 250500000n, 0n, 0n]);
+});
+
+test("opening + flows - gas must equal closing exactly", () => {
+  const eth = sumFlows(entries, native).get("native")!;
+  const opening = 1_000000000000000000n;
+  const expected = opening + 1_500000000000000000n - 101000000n;
+  assert.deepEqual(reconcile(opening, expected, eth), { expected, discrepancy: 0n, ok: true });
+  // One wei off is a mismatch
+  assert.deepEqual(reconcile(opening, expected - 1n, eth), { expected, discrepancy: -1n, ok: false });
+});
+
+test("explorer errors stop the paging, and a page cap is warned about only when rows are past it", async (t) => {
+  const answers: unknown[] = [];
+  setTransport(async () => ({ status: 200, data: answers.shift(), headers: {} }));
+  const warn = t.mock.method(console, "warn", () => {});
+  t.after(() => setTransport(axiosTransport));
+  const opts = { startBlock: 1, endBlock: 100, maxPages: 2 };
+  const page = (n: number) => Array.from({ length: n }, (_, i) => tx({ hash: `0x${i}`, from: OTHER, to: ME, value: "1" }));
+
+  answers.push({ status: "0", message: "No transactions found", result: [] });
+  assert.deepEqual(await fetchAccountPages(8453, "txlist", ME, opts), []);
+
+  answers.push({ status: "1", message: "OK", result: page(1000) }, { status: "0", message: "NOTOK", result: "Max rate limit reached" });
+  await assert.rejects(fetchAccountPages(8453, "txlist", ME, opts), /txlist for 0x1111.* \(page 2\) failed: NOTOK: Max rate limit reached/);
+
+  answers.push({ status: "0", message: "NOTOK", result: "Result window is too large, PageNo x Offset size must be less than or equal to 10000" });
+  await assert.rejects(fetchAccountPages(8453, "tokentx", ME, opts), /Result window is too large.*--chunkDays/);
+
+  // Every row is in block 100, so the probe asks for 2001 rows from block 100 on
+  answers.push({ status: "1", message: "OK", result: page(1000) }, { status: "1", message: "OK", result: page(1000) });
+  answers.push({ status: "1", message: "OK", result: page(2001) });
+  assert.equal((await fetchAccountPages(8453, "txlist", ME, opts)).length, 2000);
+  assert.equal(warn.mock.callCount(), 1);
+  assert.match(String(warn.mock.calls[0]!.arguments[0]), /stopped at maxPages=2 \(2000 rows\)/);
+
+  // The last allowed page was exactly full and nothing follows it
+  answers.push({ status: "1", message: "OK", result: page(1000) }, { status: "1", message: "OK", result: page(1000) });
+  answers.push({ status: "1", message: "OK", result: page(2000) });
+  assert.equal((await fetchAccountPages(8453, "txlist", ME, opts)).length, 2000);
+  assert.equal(warn.mock.callCount(), 1);
+  assert.equal(answers.length, 0);
+});
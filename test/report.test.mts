@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { buildReport, formatTable, reportItems, reportKind } from "../lib/report.mjs";
+
+const W = "0x1111111111111111111111111111111111111111";
+const native = () => "ETH";
+
+test("ledger rows report net flows per dimension, with amounts only for single-asset buckets", () => {
+  const rows = [
+    { date_iso: "2024-01-05T00:00:00.000Z", chain: "base", wallet: W, wallet_label: "Ops", direction: "in", counterparty: "0xa", asset: "ETH", amount: "1.5", usd_value: "3000.00" },
+    { date_iso: "2024-02-05T00:00:00.000Z", chain: "base", wallet: W, wallet_label: "Ops", direction: "out", counterparty: "0xb", asset: "ETH", amount: "0.5", usd_value: "1000.00" },
+    { date_iso: "2024-02-06T00:00:00.000Z", chain: "optimism", wallet: W, wallet_label: "Ops", direction: "in", counterparty: "0xb", asset: "USDC", amount: "10", usd_value: "" },
+  ];
+  const kind = reportKind(rows[0]!, "ledger.csv");
+  assert.equal(kind, "ledger");
+  const tables = buildReport(reportItems(rows, kind, native), kind, { top: 20 });
+  const lines = Object.fromEntries(tables.map((t) => [t.dimension, t.lines.map((l) => [l.key, l.rows, l.amount, l.usd, l.unpriced])]));
+  assert.deepEqual(lines.wallet, [[W.toLowerCase(), 3, "", "2000.00", 1]]);
+  assert.deepEqual(lines.asset, [["ETH", 2, "1", "2000.00", 0], ["USDC", 1, "10", "0.00", 1]]);
+  assert.deepEqual(lines.counterparty, [["0xa", 1, "1.5", "3000.00", 0], ["0xb", 2, "", "-1000.00", 1]]);
+  assert.deepEqual(lines.month, [["2024-01", 1, "1.5", "3000.00", 0], ["2024-02", 2, "", "-1000.00", 1]]);
+});
+
+test("snapshot series report the last date, per month for the month table, and fold past --top", () => {
+  const row = (date: string, symbol: string, balance: string, usd: string) =>
+    ({ date_iso: date, chain: "base", wallet: W, symbol, balance, usd_value: usd });
+  const rows = [
+    row("2024-01-15T23:59:59Z", "ETH", "1", "2000.00"),
+    row("2024-01-31T23:59:59Z", "ETH", "2", "4000.00"),
+    row("2024-02-29T23:59:59Z", "ETH", "3", "9000.00"),
+    row("2024-02-29T23:59:59Z", "USDC", "5", "5.00"),
+    row("2024-02-29T23:59:59Z", "DEGEN", "7", "1.00"),
+  ];
+  const tables = buildReport(reportItems(rows, "snapshot", native), "snapshot", { top: 1 });
+  assert.equal(tables.some((t) => t.dimension === "counterparty"), false);
+  const asset = tables.find((t) => t.dimension === "asset")!.lines.map((l) => [l.key, l.amount, l.usd]);
+  assert.deepEqual(asset, [["ETH", "3", "9000.00"], ["(other 2)", "", "6.00"]]);
+  const month = tables.find((t) => t.dimension === "month")!.lines.map((l) => [l.key, l.rows, l.usd]);
+  assert.deepEqual(month, [["2024-01", 1, "4000.00"], ["2024-02", 3, "9006.00"]]);
+});
+
+test("tables align text left and numbers right", () => {
+  assert.deepEqual(formatTable(["key", "usd"], [["base", "1.00"], ["optimism", "100.00"]]), [
+    "key          usd",
+    "--------  ------",
+    "base        1.00",
+    "optimism  100.00",
+  ]);
+});
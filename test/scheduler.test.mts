@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { configureLimits, limitsFor, mapConcurrent, providerOf, retryAfterMs, scheduled, throughputStats } from "../lib/scheduler.mjs";
+
+const ok = { status: 200, headers: {} as Record<string, string> };
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+test("a provider's bucket caps the request rate and the requests in flight", async () => {
+  configureLimits({ "rpc.test": { rps: 50, burst: 2, maxInFlight: 1 } });
+  let open = 0;
+  let peak = 0;
+  const started = Date.now();
+  await Promise.all(Array.from({ length: 6 }, () => scheduled("rpc.test", async () => {
+    peak = Math.max(peak, ++open);
+    await sleep(2);
+    open -= 1;
+    return ok;
+  })));
+
+  // Two go out on the burst, the other four wait ~20ms each for a token
+  assert.ok(Date.now() - started >= 75, `took ${Date.now() - started}ms`);
+  assert.equal(peak, 1);
+  const [stats] = throughputStats();
+  assert.equal(stats!.provider, "rpc.test");
+  assert.equal(stats!.requests, 6);
+  assert.equal(stats!.peakInFlight, 1);
+});
+
+test("429s pause the provider and are retried unless the caller retries itself", async () => {
+  configureLimits({});
+  const answers = [{ status: 429, headers: { "retry-after": "0" } }, ok];
+  let calls = 0;
+  assert.equal((await scheduled("api.test", async () => answers[calls++]!)).status, 200);
+  assert.equal(calls, 2);
+
+  calls = 0;
+  assert.equal((await scheduled("api.test", async () => answers[calls++]!, { retry429: false })).status, 429);
+  assert.equal(calls, 1);
+  assert.equal(throughputStats()[0]!.throttled, 2);
+
+  // Replays skip pacing, retries and the counts
+  calls = 0;
+  assert.equal((await scheduled("api.test", async () => answers[calls++]!, { paced: false })).status, 429);
+  assert.equal(throughputStats()[0]!.requests, 3);
+});
+
+test("providers, limits, Retry-After and bounded concurrency", async () => {
+  configureLimits({ default: { rps: 25 }, "base-mainnet.example.com": { maxInFlight: 2 }, etherscan: { rps: 20, burst: 20 } });
+  assert.equal(providerOf("https://api.etherscan.io/v2/api?module=account"), "etherscan");
+  assert.equal(providerOf("https://pro-api.coingecko.com/api/v3/coins/x"), "coingecko");
+  assert.equal(providerOf("https://Base-Mainnet.example.com/v2/KEY"), "base-mainnet.example.com");
+  assert.deepEqual(limitsFor("etherscan"), { rps: 20, burst: 20, maxInFlight: 4 });
+  assert.deepEqual(limitsFor("base-mainnet.example.com"), { rps: 25, burst: 10, maxInFlight: 2 });
+  assert.deepEqual(limitsFor("coingecko"), { rps: 1 / 6, burst: 1, maxInFlight: 1 });
+
+  assert.equal(retryAfterMs("3"), 3000);
+  assert.equal(retryAfterMs("Wed, 21 Oct 2015 07:28:05 GMT", Date.parse("2015-10-21T07:28:00Z")), 5000);
+  assert.equal(retryAfterMs("soon"), null);
+  assert.equal(retryAfterMs(undefined), null);
+
+  let open = 0;
+  let peak = 0;
+  const out = await mapConcurrent([5, 1, 3, 2, 4], 2, async (n) => {
+    peak = Math.max(peak, ++open);
+    await sleep(n);
+    open -= 1;
+    return n * 10;
+  });
+  assert.deepEqual(out, [50, 10, 30, 20, 40]);
+  assert.equal(peak, 2);
+  configureLimits({});
+});
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { test } from "node:test";
+
+import { parseCsv } from "../lib/csv.mjs";
+import { FIXTURES, runCli } from "./helpers.mjs";
+
+// Recorded chain: one block every 10 days from 2024-01-01, so 2024-12-31 resolves to block 36
+const snapshotArgs = [
+  `--replay=${join(FIXTURES, "snapshot")}`,
+  `--config=${join(FIXTURES, "config.yaml")}`,
+  "--prices=file,pegged",
+  `--priceFile=${join(FIXTURES, "prices.csv")}`,
+];
+
+test("snapshot resolves the block and writes balances from recorded responses", async () => {
+  const run = await runCli(["snapshot", ...snapshotArgs]);
+  assert.equal(run.code, 0, run.stderr);
+
+  const rows = parseCsv(await readFile(join(run.cwd, "csvs", "eoy_2024.csv"), "utf8"));
+  assert.deepEqual(
+    rows.map((r) => [r.block_number, r.asset_type, r.symbol, r.balance, r.balance_raw, r.usd_price_on_date, r.usd_value, r.price_source]),
+    [
+      ["36", "native", "ETH", "1.5", "1500000000000000000", "3300.00", "4950.00", "file"],
+      ["36", "erc20", "USDC", "250.5", "250500000", "1.000000", "250.50", "pegged"],
+    ],
+  );
+  assert.deepEqual([rows[0]!.wallet_label, rows[0]!.wallet_groups], ["Ops hot wallet", "ops"]);
+
+  const summary = parseCsv(await readFile(join(run.cwd, "csvs", "eoy_2024_summary.csv"), "utf8"));
+  assert.deepEqual(
+    summary.filter((r) => r.dimension === "group").map((r) => [r.key, r.rows, r.usd_value]),
+    [["ops", "2", "5200.50"]],
+  );
+});
+
+test("snapshot --format=ndjson writes the same rows as objects", async () => {
+  const run = await runCli(["snapshot", ...snapshotArgs, "--format=ndjson"]);
+  assert.equal(run.code, 0, run.stderr);
+
+  const lines = (await readFile(join(run.cwd, "csvs", "eoy_2024.ndjson"), "utf8")).trim().split("\n");
+  const rows = lines.map((l) => JSON.parse(l));
+  assert.equal(rows.length, 2);
+  assert.equal(rows[0].wallet, "0x1111111111111111111111111111111111111111");
+  assert.equal(rows[1].token_address, "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913");
+});
+
+test("replay fails on a request that was never recorded", async () => {
+  const run = await runCli(["snapshot", ...snapshotArgs, "--date=2024-06-30"]);
+  assert.notEqual(run.code, 0);
+  assert.match(run.stderr, /No recording/);
+});
@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { addToSummary, summaryRows, UNGROUPED, type Summary } from "../lib/summary.mjs";
+
+test("rows add up per group, chain and asset, with amounts per asset only", () => {
+  const summary: Summary = {};
+  const period = "2024-12-31";
+  addToSummary(summary, { period, chain: "base", asset: "ETH", groups: ["ops", "treasury"], amount: "1", usd: "3000.00" });
+  addToSummary(summary, { period, chain: "optimism", asset: "ETH", groups: ["ops"], amount: "0.5", usd: "1500.00" });
+  addToSummary(summary, { period, chain: "base", asset: "DEGEN", groups: [], amount: "10", usd: null });
+
+  const rows = summaryRows(summary).map((r) => [r.dimension, r.key, r.rows, r.amount, r.usd_value, r.unpriced_rows]);
+  assert.deepEqual(rows, [
+    ["group", UNGROUPED, "1", "", "0.00", "1"],
+    ["group", "ops", "2", "", "4500.00", "0"],
+    ["group", "treasury", "1", "", "3000.00", "0"],
+    ["chain", "base", "2", "", "3000.00", "1"],
+    ["chain", "optimism", "1", "", "1500.00", "0"],
+    ["asset", "DEGEN", "1", "10", "0.00", "1"],
+    ["asset", "ETH", "2", "1.5", "4500.00", "0"],
+  ]);
+});
+
+test("amounts and USD add up exactly, without float drift", () => {
+  const summary: Summary = {};
+  const period = "2024-12-31";
+  for (const amount of ["0.1", "0.2", "0.000000000000000001"]) {
+    addToSummary(summary, { period, chain: "base", asset: "ETH", groups: [], amount, usd: "0.10" });
+  }
+  const eth = summaryRows(summary).find((r) => r.dimension === "asset")!;
+  assert.deepEqual([eth.amount, eth.usd_value], ["0.300000000000000001", "0.30"]);
+});
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import type { RpcBatch, RpcCall } from "../lib/logs.mjs";
+import { fetchTraceTransfers } from "../lib/traces.mjs";
+
+const W = "0x1111111111111111111111111111111111111111";
+const ROUTER = "0x3333333333333333333333333333333333333333";
+const USER = "0x2222222222222222222222222222222222222222";
+const hex = (n: number | bigint) => "0x" + n.toString(16);
+
+const call = (block: number, tx: string, traceAddress: number[], to: string, value: bigint, extra: Record<string, unknown> = {}) => ({
+  action: { callType: "call", from: ROUTER, to, value: hex(value), input: "0x" },
+  blockNumber: block,
+  transactionHash: tx,
+  traceAddress,
+  type: "call",
+  ...extra,
+});
+
+// tx a: the wallet is paid twice inside it; tx b: the payment sits under a reverted frame;
+// tx c: the wallet is the top-level recipient (a normal transfer, not an internal one)
+const TXS: Record<string, any[]> = {
+  "0xa": [
+    call(5, "0xa", [], ROUTER, 0n),
+    call(5, "0xa", [0], W, 3n),
+    call(5, "0xa", [1], USER, 9n),
+    call(5, "0xa", [2, 0], W, 4n),
+    call(5, "0xa", [3], W, 5n, { action: { callType: "delegatecall", from: ROUTER, to: W, value: hex(5) } }),
+  ],
+  "0xb": [
+    call(700, "0xb", [], ROUTER, 0n),
+    call(700, "0xb", [0], ROUTER, 0n, { error: "Reverted" }),
+    call(700, "0xb", [0, 0], W, 8n),
+  ],
+  "0xc": [call(900, "0xc", [], W, 6n)],
+};
+
+// A trace_filter provider that refuses more than `maxSpan` blocks per call
+function fakeTraceRpc(maxSpan: number) {
+  const ranges: [number, number][] = [];
+  const all = Object.values(TXS).flat();
+  const rpcCall: RpcCall = async (method, params) => {
+    assert.equal(method, "trace_filter");
+    const f = params[0] as any;
+    const [from, to] = [Number.parseInt(f.fromBlock, 16), Number.parseInt(f.toBlock, 16)];
+    if (to - from + 1 > maxSpan) throw Object.assign(new Error("block range is too wide"), { code: -32000 });
+    ranges.push([from, to]);
+    return all.filter((t) => t.blockNumber >= from && t.blockNumber <= to && f.toAddress.includes(t.action.to));
+  };
+  const batch: RpcBatch = async (calls) => calls.map((c) => c.method === "trace_transaction"
+    ? TXS[c.params[0] as string]
+    : { timestamp: hex(1_700_000_000 + Number.parseInt(c.params[0] as string, 16)) });
+  return { call: rpcCall, batch, ranges };
+}
+
+test("trace_filter finds value sent to the wallet inside transactions, skipping reverted frames", async () => {
+  const rpc = fakeTraceRpc(400);
+  const rows = await fetchTraceTransfers(rpc, { to: W, fromBlock: 0, toBlock: 999, method: "trace_filter", span: 1000 });
+
+  assert.equal(rpc.ranges.reduce((n, [a, b]) => n + b - a + 1, 0), 1000);
+  assert.deepEqual(rows.map((r) => [r.hash, r.traceId, r.value]), [["0xa", "0", "3"], ["0xa", "2_0", "4"]]);
+  assert.deepEqual(rows[0], {
+    blockNumber: "5",
+    timeStamp: "1700000005",
+    hash: "0xa",
+    from: ROUTER,
+    to: W,
+    value: "3",
+    traceId: "0",
+    type: "call",
+    isError: "0",
+  });
+});
+
+test("the debug method walks callTracer frames block by block", async () => {
+  const frame = {
+    type: "CALL", from: USER, to: ROUTER, value: "0x0",
+    calls: [
+      { type: "STATICCALL", from: ROUTER, to: W },
+      { type: "CALL", from: ROUTER, to: W, value: "0x7" },
+      { type: "CALL", from: ROUTER, to: ROUTER, value: "0x0", error: "execution reverted", calls: [{ type: "CALL", from: ROUTER, to: W, value: "0x8" }] },
+    ],
+  };
+  const requested: string[] = [];
+  const rpc = {
+    call: (async () => assert.fail("no single calls")) as RpcCall,
+    batch: (async (calls) => calls.map((c) => {
+      requested.push(`${c.method}:${c.params[0]}`);
+      const block = Number.parseInt(c.params[0] as string, 16);
+      if (c.method === "eth_getBlockByNumber") return { timestamp: hex(1_700_000_000 + block), transactions: block === 12 ? ["0xd"] : [] };
+      return block === 12 ? [{ result: frame }] : [];
+    })) as RpcBatch,
+  };
+  const rows = await fetchTraceTransfers(rpc, { to: W, fromBlock: 10, toBlock: 24, method: "debug", span: 1000 });
+
+  assert.equal(requested.filter((r) => r.startsWith("debug_traceBlockByNumber")).length, 15);
+  assert.deepEqual(rows.map((r) => [r.blockNumber, r.timeStamp, r.hash, r.traceId, r.value]), [["12", "1700000012", "0xd", "1", "7"]]);
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { getAddress } from "viem";
+
+import { loadConfig, validateConfig } from "../lib/config.mjs";
+import { parseWallets, walletInfo } from "../lib/wallets.mjs";
+
+const A = "0x1111111111111111111111111111111111111111";
+const B = "0x2222222222222222222222222222222222222222";
+
+test("scoped wallets go to their chain, by name or alias", async () => {
+  const config = await loadConfig("");
+  const { scoped, unscoped } = parseWallets([`base:${A}`, `op:${B}`, `OPTIMISM:${A}`], config);
+  assert.deepEqual(scoped.get("base"), [A]);
+  assert.deepEqual(scoped.get("optimism"), [B, A]);
+  assert.deepEqual(unscoped, []);
+});
+
+test("plain addresses are unscoped", async () => {
+  const config = await loadConfig("");
+  const { scoped, unscoped } = parseWallets([A, B], config);
+  assert.deepEqual(unscoped, [A, B]);
+  assert.ok(Array.from(scoped.values()).every((w) => w.length === 0));
+});
+
+test("unknown chain prefixes are rejected", async () => {
+  const config = await loadConfig("");
+  assert.throws(() => parseWallets([`nochain:${A}`], config), /nochain/);
+});
+
+test("registry chains missing from the config are skipped", async () => {
+  const config = await loadConfig("");
+  const { scoped } = parseWallets([`arbitrum:${A}`, `base:${B}`], config);
+  assert.equal(scoped.get("arbitrum"), undefined);
+  assert.deepEqual(scoped.get("base"), [B]);
+});
+
+test("addresses are validated and checksummed, and repeats collapse", async () => {
+  const config = await loadConfig("");
+  const lower = "0xd8da6bf26964af9d7eed9e10e65ee2eab8c5ff8e";
+  const checksummed = getAddress(lower);
+  // same address with the case of its first letter flipped
+  const badChecksum = checksummed.replace(/[a-f]/i, (c) => (c === c.toLowerCase() ? c.toUpperCase() : c.toLowerCase()));
+  const { scoped, unscoped } = parseWallets([lower, checksummed, `base:${lower}`], config);
+  assert.deepEqual(unscoped, [checksummed]);
+  assert.deepEqual(scoped.get("base"), [checksummed]);
+
+  assert.throws(() => parseWallets(["0x0x1111111111111111111111111111111111111111"], config), /expected a 0x address/);
+  assert.throws(() => parseWallets(["base:0x1234"], config), /expected a 0x address/);
+  assert.throws(() => parseWallets([badChecksum], config), new RegExp(`checksum mismatch \\(use ${checksummed}`));
+});
+
+test("names map to their resolved address and keep the name", async () => {
+  const config = await loadConfig("");
+  const resolved = new Map([["alice.base.eth", A as `0x${string}`]]);
+  const { scoped, info } = parseWallets(["base:Alice.base.eth"], config, resolved);
+  assert.deepEqual(scoped.get("base"), [A]);
+  assert.equal(info.get(A)?.name, "alice.base.eth");
+  assert.throws(() => parseWallets(["bob.eth"], config, resolved), /bob\.eth was not resolved/);
+});
+
+test("labels and groups come from the compact syntax or config objects, merged per address", async () => {
+  const config = validateConfig({
+    chains: { base: {}, optimism: {} },
+    wallets: [
+      `base:${A}|Ops hot wallet|ops;payroll`,
+      { address: A, chain: "op", groups: ["treasury", "ops"] },
+      { address: B, label: "Cold storage" },
+    ],
+  }, "test");
+  assert.deepEqual(config.wallets[0], { entry: `base:${A}`, label: "Ops hot wallet", groups: ["ops", "payroll"] });
+  const parsed = parseWallets(config.wallets, config);
+  assert.deepEqual(walletInfo(parsed, A), { name: "", label: "Ops hot wallet", groups: ["ops", "payroll", "treasury"] });
+  assert.deepEqual(walletInfo(parsed, B), { name: "", label: "Cold storage", groups: [] });
+  assert.deepEqual(parsed.scoped.get("optimism"), [A]);
+});
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { mkdtemp, readdir } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+
+import { axiosTransport, configureTransport, setTransport, type HttpRequest } from "../lib/transport.mjs";
+import { postWebhook, signWebhook } from "../lib/webhook.mjs";
+
+// Answers with the given statuses in turn and records every request
+function fakeReceiver(statuses: number[]) {
+  const seen: HttpRequest[] = [];
+  setTransport(async (req) => {
+    seen.push(req);
+    return { status: statuses[seen.length - 1] ?? 200, data: "", headers: {} };
+  });
+  return seen;
+}
+
+test("webhooks are signed over the timestamp and the exact body", async (t) => {
+  t.after(() => setTransport(axiosTransport));
+  const seen = fakeReceiver([200]);
+  await postWebhook({ event: "inbound_transfer", amount: "1.5" }, { url: "https://hooks.test/in", secret: "s3cret", retries: 0 });
+
+  assert.equal(seen.length, 1);
+  const req = seen[0]!;
+  const ts = req.headers!["x-walletbalance-timestamp"]!;
+  const expected = createHmac("sha256", "s3cret").update(`${ts}.${req.body}`).digest("hex");
+  assert.equal(req.body, '{"event":"inbound_transfer","amount":"1.5"}');
+  assert.equal(req.headers!["x-walletbalance-signature"], `sha256=${expected}`);
+  assert.equal(signWebhook("s3cret", Number(ts), String(req.body)), `sha256=${expected}`);
+});
+
+test("webhooks retry 5xx and 429 but give up on other 4xx", async (t) => {
+  t.after(() => setTransport(axiosTransport));
+  const opts = { url: "https://hooks.test/in", secret: "", retries: 3, baseDelayMs: 1 };
+
+  const flaky = fakeReceiver([503, 429, 200]);
+  await postWebhook({ n: 1 }, opts);
+  assert.equal(flaky.length, 3);
+  assert.equal(flaky[0]!.headers!["x-walletbalance-signature"], undefined);
+
+  const rejected = fakeReceiver([400]);
+  await assert.rejects(postWebhook({ n: 2 }, opts), /HTTP 400/);
+  assert.equal(rejected.length, 1);
+
+  const down = fakeReceiver([500, 500, 500, 500, 500]);
+  await assert.rejects(postWebhook({ n: 3 }, opts), /HTTP 500/);
+  assert.equal(down.length, 4);
+});
+
+test("webhooks go to the receiver under --record and --replay", async (t) => {
+  t.after(() => setTransport(axiosTransport));
+  const dir = await mkdtemp(join(tmpdir(), "walletbalance-recordings-"));
+  const opts = { url: "https://hooks.test/in", secret: "", retries: 0 };
+
+  const replayed = fakeReceiver([200]);
+  configureTransport({ replay: dir });
+  await postWebhook({ n: 1 }, opts);
+  assert.equal(replayed.length, 1);
+
+  const recorded = fakeReceiver([200]);
+  configureTransport({ record: dir });
+  await postWebhook({ n: 2 }, opts);
+  assert.equal(recorded.length, 1);
+  assert.deepEqual(await readdir(dir), []);
+});
@@ -0,0 +1,57 @@
+import "dotenv/config";
+
+import { formatHelp, type CommandSpec } from "./lib/args.mjs";
+
+// Usage: walletbalance <command> [options]   (npm run walletbalance -- <command> ...)
+
+type CommandModule = { command: CommandSpec; main(argv: string[]): Promise<void> };
+
+// Commands load on demand, so only the one being run is imported
+const COMMANDS: { name: string; summary: string; load: () => Promise<CommandModule> }[] = [
+  { name: "snapshot", summary: "Balances at a date or over a series of dates", load: () => import("./snapshot.mjs") },
+  { name: "inbound", summary: "Inbound transfers or the full ledger from Etherscan", load: () => import("./inbound.mjs") },
+  { name: "costbasis", summary: "Realized and unrealized gains from ledger CSVs", load: () => import("./costbasis.mjs") },
+  { name: "report", summary: "Summary tables per wallet, chain, asset, counterparty and month", load: () => import("./report.mjs") },
+  { name: "reconcile", summary: "Check opening + flows - gas = closing between two dates", load: () => import("./reconcile.mjs") },
+  { name: "serve", summary: "Local HTTP API for balances and transfers as JSON", load: () => import("./serve.mjs") },
+  { name: "cache", summary: "Clear the persistent cache", load: () => import("./cache.mjs") },
+];
+
+function usage(): string {
+  const width = Math.max(...COMMANDS.map((c) => c.name.length));
+  return [
+    "Usage: walletbalance <command> [options]",
+    "",
+    "Commands:",
+    ...COMMANDS.map((c) => `  ${c.name.padEnd(width)}  ${c.summary}`),
+    "",
+    "Run `walletbalance <command> --help` for a command's options. Options take --name value or --name=value.",
+  ].join("\n");
+}
+
+async function main() {
+  const [name, ...rest] = process.argv.slice(2);
+  if (!name || name === "-h" || name === "--help") {
+    console.log(usage());
+    return;
+  }
+  // `walletbalance help <command>` is the same as `walletbalance <command> --help`
+  const target = name === "help" ? rest[0] : name;
+  const cmd = COMMANDS.find((c) => c.name === target);
+  if (!cmd) {
+    if (name === "help" && !target) {
+      console.log(usage());
+      return;
+    }
+    console.error(`Unknown command ${target}\n\n${usage()}`);
+    process.exit(1);
+  }
+  const mod = await cmd.load();
+  if (name === "help") {
+    console.log(formatHelp(mod.command));
+    return;
+  }
+  await mod.main(rest);
+}
+
+main().catch((e) => { console.error(e); process.exit(1); });